@@ -1,8 +1,10 @@
 // Main API client for Open Notebook
 import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import { AuthManager } from './auth';
-import { SSEHandler } from './sse';
+import { SSEHandler, StreamUnavailableError } from './sse';
 import { logger } from '../utils/Logger';
+import { SourceMarker } from '../utils/SourceMarker';
+import { RateLimiter } from '../utils/RateLimiter';
 import {
   APINotebook,
   APISource,
@@ -17,7 +19,7 @@ import {
   APIModelDefaults,
   APIModel
 } from './types';
-import { APIChatSession, APIChatMessage } from '../types/chat';
+import { APIChatSession, APIChatMessage, ChatStreamChunk } from '../types/chat';
 import { SearchRequest, SearchResult } from '../types/search';
 import { APIPodcastEpisode, PodcastGenerateRequest, PodcastGenerateResponse, APIEpisodeProfile, APISpeakerProfile } from '../types/podcast';
 
@@ -30,6 +32,13 @@ export class APIError extends Error {
     super(message);
     this.name = 'APIError';
   }
+
+  /**
+   * Check if the request failed because the server couldn't be reached
+   */
+  public isNetworkError(): boolean {
+    return this.statusCode === 0 || this.statusCode === 502 || this.statusCode === 503 || this.statusCode === 504;
+  }
 }
 
 interface CacheEntry<T> {
@@ -44,6 +53,7 @@ export class OpenNotebookClient {
   private sseHandler: SSEHandler;
   private timeout: number;
   private retryAttempts: number;
+  private rateLimiter: RateLimiter; // Shared by every caller, so parallel syncs stay under one cap
 
   // Cache with TTL
   private modelDefaultsCache: APIModelDefaults | null = null;
@@ -58,13 +68,15 @@ export class OpenNotebookClient {
     endpoint: string,
     password: string,
     timeout: number = 30000,
-    retryAttempts: number = 3
+    retryAttempts: number = 3,
+    requestsPerSecond: number = 0
   ) {
     this.endpoint = endpoint.replace(/\/$/, ''); // Remove trailing slash
     this.authManager = new AuthManager(password);
     this.sseHandler = new SSEHandler();
     this.timeout = timeout;
     this.retryAttempts = retryAttempts;
+    this.rateLimiter = new RateLimiter(requestsPerSecond);
   }
 
   public setPassword(password: string): void {
@@ -83,6 +95,10 @@ export class OpenNotebookClient {
     this.retryAttempts = attempts;
   }
 
+  public setRequestsPerSecond(requestsPerSecond: number): void {
+    this.rateLimiter.setRate(requestsPerSecond);
+  }
+
   /**
    * Check if a cache entry is still valid
    */
@@ -237,59 +253,245 @@ export class OpenNotebookClient {
       url?: string;
     };
     notebooks?: string[];
+    topics?: string[];
     embed?: boolean;
+    marker?: string;
+    isRetry?: boolean;
   }): Promise<APISource> {
+    const { marker = SourceMarker.generate(), isRetry = false, topics, ...body } = data;
+
+    return this.createMarkedSource(body.title, marker, isRetry, body.notebooks?.[0], topics, (title) =>
+      this.makeRequest<APISource>('/api/sources/json', {
+        method: 'POST',
+        body: { ...body, title }
+      })
+    );
+  }
+
+  /**
+   * Upload a vault file (PDF, image, audio, ...) as a file-backed source
+   * Sent as multipart/form-data, so it bypasses the JSON request helper
+   */
+  public async uploadSource(data: {
+    fileName: string;
+    fileData: ArrayBuffer;
+    mimeType: string;
+    title: string;
+    notebooks?: string[];
+    embed?: boolean;
+    deleteSource?: boolean;
+    marker?: string;
+    isRetry?: boolean;
+  }): Promise<APISource> {
+    const marker = data.marker || SourceMarker.generate();
+
+    return this.createMarkedSource(data.title, marker, data.isRetry ?? false, data.notebooks?.[0], undefined, (title) =>
+      this.postUpload(data, title)
+    );
+  }
+
+  /**
+   * Send a single multipart upload request
+   */
+  private async postUpload(
+    data: { fileName: string; fileData: ArrayBuffer; mimeType: string; notebooks?: string[]; embed?: boolean; deleteSource?: boolean },
+    title: string
+  ): Promise<APISource> {
+    const path = '/api/sources';
+    const boundary = `----OpenNotebookBoundary${Date.now().toString(16)}`;
+
+    const fields: Record<string, string> = {
+      type: 'upload',
+      title,
+      embed: String(data.embed ?? true),
+      delete_source: String(data.deleteSource ?? false)
+    };
+    if (data.notebooks) {
+      fields.notebooks = JSON.stringify(data.notebooks);
+    }
+
+    const body = this.buildMultipartBody(boundary, fields, {
+      name: 'file',
+      fileName: data.fileName,
+      mimeType: data.mimeType,
+      data: data.fileData
+    });
+
+    logger.debug(`API Request: POST ${this.endpoint}${path} (upload ${data.fileName}, ${data.fileData.byteLength} bytes)`);
+
     try {
-      // Call makeRequest directly to bypass retry logic
-      // (retrying creates duplicate sources due to asyncio bug)
-      return await this.makeRequest<APISource>('/api/sources/json', {
+      await this.rateLimiter.acquire();
+      const response = await requestUrl({
+        url: `${this.endpoint}${path}`,
         method: 'POST',
-        body: data
+        headers: {
+          ...this.authManager.getAuthHeaders(),
+          'Content-Type': `multipart/form-data; boundary=${boundary}`
+        },
+        body,
+        throw: false
       });
+
+      if (response.status >= 200 && response.status < 300) {
+        return response.json as APISource;
+      }
+
+      let message = 'Unknown error';
+      try {
+        message = this.extractErrorMessage(response.json as APIErrorResponse);
+      } catch {
+        message = response.text || message;
+      }
+      throw new APIError(response.status, message, path);
     } catch (error) {
-      // Workaround for Open Notebook backend bug where sync processing fails
-      // but the source is still created successfully.
-      // Backend error: "asyncio.run() cannot be called from a running event loop"
-      // This happens because the backend uses execute_command_sync which calls
-      // asyncio.run() while already in FastAPI's async event loop.
-      if (error instanceof APIError &&
-          error.statusCode === 500 &&
-          error.message.includes('asyncio.run()')) {
-
-        logger.debug('Known backend asyncio bug detected - verifying source creation');
-
-        // Wait for source to be fully created in database
-        await this.sleep(1000);
-
-        // Find the newly created source by title and notebook
-        const notebookId = data.notebooks?.[0];
-        if (notebookId) {
-          const sources = await this.getSources(notebookId);
-
-          // Filter sources by title and sort by updated/created timestamp to get the most recent
-          const matchingSources = sources.filter(s => s.title === data.title);
-
-          if (matchingSources.length > 0) {
-            // Sort by updated timestamp (most recent first), fall back to created timestamp
-            matchingSources.sort((a, b) => {
-              const timeA = new Date(a.updated || a.created).getTime();
-              const timeB = new Date(b.updated || b.created).getTime();
-              return timeB - timeA; // Descending order (newest first)
-            });
-
-            const newSource = matchingSources[0]; // Get the most recent one
-            logger.info(`Source created successfully (backend asyncio error ignored): ${newSource.id}`);
-            return newSource;
+      if (error instanceof APIError) {
+        throw error;
+      }
+
+      logger.error('Upload failed', error);
+      throw new APIError(0, error.message || 'Network error', path);
+    }
+  }
+
+  /**
+   * Run a source create tagged with an idempotency marker in its title
+   * A failed attempt is only retried once a marker lookup shows it created nothing,
+   * duplicates from earlier attempts for the same file are deleted, and the marker is stripped
+   * The returned title and topics are only the plain ones if stripping the marker went through
+   */
+  private async createMarkedSource(
+    title: string,
+    marker: string,
+    isRetry: boolean,
+    notebookId: string | undefined,
+    topics: string[] | undefined,
+    send: (markedTitle: string) => Promise<APISource>
+  ): Promise<APISource> {
+    let source: APISource | null = null;
+    let recovered = false;
+
+    // An earlier attempt with this marker may have gone through without a response
+    if (isRetry) {
+      source = (await this.findSourcesByMarker(marker, notebookId))[0] || null;
+      recovered = true;
+    }
+
+    if (!source) {
+      source = await this.withRetry(async () => {
+        try {
+          return await send(SourceMarker.apply(title, marker));
+        } catch (error) {
+          if (error instanceof APIError && error.statusCode >= 400 && error.statusCode < 500) {
+            throw error;
+          }
+          recovered = true;
+
+          // The backend can create the source and still fail the request
+          // ("asyncio.run() cannot be called from a running event loop"), and responses can be lost
+          await this.sleep(1000);
+          const created = await this.findSourcesByMarker(marker, notebookId);
+          if (created.length > 0) {
+            logger.info(`Source ${created[0].id} was created despite the error response`);
+            return created[0];
           }
+
+          throw error;
         }
+      });
+    }
 
-        // If we can't find it, re-throw the original error
-        logger.error('Failed to verify source creation after backend error');
-        throw error;
+    if (recovered) {
+      await this.removeOrphanedSources(marker, source.id, notebookId);
+    }
+
+    // Create confirmed - the title can go back to the plain file title, sent along with the topics
+    const update = topics && topics.length > 0 ? { title, topics } : { title };
+    try {
+      await this.updateSource(source.id, update);
+    } catch (error) {
+      logger.warn(`Could not remove the create marker from source ${source.id}`, error);
+      return source;
+    }
+
+    return { ...source, ...update };
+  }
+
+  /**
+   * Find sources whose title carries a create marker, newest first
+   */
+  private async findSourcesByMarker(marker: string, notebookId?: string): Promise<APISource[]> {
+    const sources = await this.getSources(notebookId);
+
+    return sources
+      .filter(s => SourceMarker.parse(s.title) === marker)
+      .sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+  }
+
+  /**
+   * Delete sources left behind by other create attempts for the same file
+   * Only sources still carrying a marker with the same key are touched
+   */
+  public async removeOrphanedSources(marker: string, keepId: string, notebookId?: string): Promise<number> {
+    let removed = 0;
+
+    try {
+      const sources = await this.getSources(notebookId);
+
+      for (const source of sources) {
+        const other = SourceMarker.parse(source.title);
+        if (source.id === keepId || !other || !SourceMarker.sameKey(other, marker)) {
+          continue;
+        }
+
+        try {
+          await this.deleteSource(source.id);
+          removed++;
+          logger.info(`Deleted orphaned source ${source.id} (${source.title})`);
+        } catch (error) {
+          logger.warn(`Failed to delete orphaned source ${source.id}`, error);
+        }
       }
+    } catch (error) {
+      logger.warn('Could not check for orphaned sources', error);
+    }
 
-      throw error;
+    return removed;
+  }
+
+  /**
+   * Encode form fields and a single file as a multipart/form-data body
+   */
+  private buildMultipartBody(
+    boundary: string,
+    fields: Record<string, string>,
+    file: { name: string; fileName: string; mimeType: string; data: ArrayBuffer }
+  ): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+
+    for (const [name, value] of Object.entries(fields)) {
+      parts.push(encoder.encode(
+        `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+      ));
+    }
+
+    const safeName = file.fileName.replace(/"/g, '');
+    parts.push(encoder.encode(
+      `--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; filename="${safeName}"\r\n` +
+      `Content-Type: ${file.mimeType}\r\n\r\n`
+    ));
+    parts.push(new Uint8Array(file.data));
+    parts.push(encoder.encode(`\r\n--${boundary}--\r\n`));
+
+    const totalLength = parts.reduce((sum, part) => sum + part.byteLength, 0);
+    const body = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const part of parts) {
+      body.set(part, offset);
+      offset += part.byteLength;
     }
+
+    return body.buffer;
   }
 
   /**
@@ -316,6 +518,24 @@ export class OpenNotebookClient {
     });
   }
 
+  /**
+   * Link an existing source to a notebook
+   */
+  public async addSourceToNotebook(notebookId: string, sourceId: string): Promise<void> {
+    await this.request<void>(`/api/notebooks/${notebookId}/sources/${sourceId}`, {
+      method: 'POST'
+    });
+  }
+
+  /**
+   * Unlink a source from a notebook (the source itself is kept)
+   */
+  public async removeSourceFromNotebook(notebookId: string, sourceId: string): Promise<void> {
+    await this.request<void>(`/api/notebooks/${notebookId}/sources/${sourceId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // Note methods
 
   public async getNotes(notebookId?: string): Promise<APINote[]> {
@@ -525,6 +745,7 @@ export class OpenNotebookClient {
     logger.debug(`Sending chat message to session: ${sessionId}`);
 
     try {
+      await this.rateLimiter.acquire();
       const response = await requestUrl({
         url,
         method: 'POST',
@@ -552,6 +773,45 @@ export class OpenNotebookClient {
     }
   }
 
+  /**
+   * Send a chat message and stream the assistant reply as it is generated
+   * Falls back to the JSON conversation response when streaming cannot be used
+   */
+  public async *streamMessage(
+    sessionId: string,
+    message: string,
+    context: { notebook_id?: string; source_id?: string },
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk> {
+    const url = `${this.endpoint}/api/chat/execute`;
+
+    logger.debug(`Streaming chat message to session: ${sessionId}`);
+
+    try {
+      yield* this.sseHandler.streamChatResponse(
+        url,
+        sessionId,
+        message,
+        context,
+        this.authManager.getAuthHeaders(),
+        signal
+      );
+    } catch (error) {
+      // Only fall back when the request never left, otherwise we'd send the message twice
+      if (!(error instanceof StreamUnavailableError)) {
+        logger.error('Failed to stream chat message', error);
+        throw error;
+      }
+
+      logger.warn('Streaming unavailable, falling back to JSON chat response', error);
+      const response = await this.sendMessage(sessionId, message, context);
+      const content = SSEHandler.extractLatestAIMessage(response.messages);
+      if (content) {
+        yield { type: 'message', content };
+      }
+    }
+  }
+
   // Search methods
 
   /**
@@ -724,6 +984,7 @@ export class OpenNotebookClient {
     logger.debug(`Downloading podcast audio: ${episodeId}`);
 
     try {
+      await this.rateLimiter.acquire();
       const response = await requestUrl({
         url,
         method: 'GET',
@@ -834,6 +1095,7 @@ export class OpenNotebookClient {
     logger.debug(`API Request: ${requestParams.method} ${url}`);
 
     try {
+      await this.rateLimiter.acquire();
       const response: RequestUrlResponse = await requestUrl(requestParams);
 
       logger.debug(`API Response: ${response.status}`, response.json);
@@ -1,6 +1,23 @@
 // Server-Sent Events handler for streaming responses
 import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
 import { logger } from '../utils/Logger';
+import { ChatStreamChunk } from '../types/chat';
+
+interface SSEFrame {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Thrown when a streaming request could not be sent at all,
+ * so callers can safely retry through the non-streaming endpoint
+ */
+export class StreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamUnavailableError';
+  }
+}
 
 export class SSEHandler {
   /**
@@ -63,17 +80,20 @@ export class SSEHandler {
   }
 
   /**
-   * Stream chat responses using async iteration
-   * This is a simplified version that works with Obsidian's limitations
+   * Stream chat responses as they are generated
+   * Uses fetch so SSE frames can be parsed incrementally - Obsidian's requestUrl
+   * buffers the whole body. Servers that answer with the JSON conversation
+   * instead of an event stream yield a single complete message.
    */
   async *streamChatResponse(
     url: string,
     sessionId: string,
     message: string,
     context: { notebook_id?: string; source_id?: string },
-    headers: Record<string, string>
-  ): AsyncGenerator<string> {
-    logger.debug('Streaming chat response');
+    headers: Record<string, string>,
+    signal?: AbortSignal
+  ): AsyncGenerator<ChatStreamChunk> {
+    logger.debug(`Streaming chat response for session: ${sessionId}`);
 
     const payload = {
       session_id: sessionId,
@@ -81,111 +101,199 @@ export class SSEHandler {
       context
     };
 
-    console.log('[SSE Debug] Streaming chat to URL:', url);
-    console.log('[SSE Debug] Payload:', payload);
-    console.log('[SSE Debug] Headers:', headers);
-
+    let response: Response;
     try {
-      const response = await requestUrl({
-        url,
+      response = await fetch(url, {
         method: 'POST',
         headers: {
           ...headers,
           'Content-Type': 'application/json',
-          'Accept': 'text/event-stream'
+          'Accept': 'text/event-stream, application/json'
         },
         body: JSON.stringify(payload),
-        throw: false  // Don't throw on error status, let us handle it
+        signal
       });
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      // Nothing reached the server (blocked by CORS, fetch unavailable, ...)
+      throw new StreamUnavailableError(error instanceof Error ? error.message : 'fetch failed');
+    }
 
-      console.log('[SSE Debug] Response status:', response.status);
-      console.log('[SSE Debug] Response headers:', response.headers);
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Chat API error ${response.status}: ${errorText}`);
+    }
 
-      if (response.status >= 400) {
-        console.error('[SSE Debug] Error response body:', response.text);
-        console.error('[SSE Debug] Error response JSON:', response.json);
-        throw new Error(`Chat API error ${response.status}: ${JSON.stringify(response.json)}`);
+    const contentType = response.headers.get('content-type') || '';
+    if (!contentType.includes('text/event-stream') || !response.body) {
+      // Server does not stream - the body is the full conversation
+      logger.debug(`Chat response is not an event stream (${contentType}), reading as JSON`);
+      const json = await response.json();
+      const content = SSEHandler.extractLatestAIMessage(json?.messages);
+      if (content) {
+        yield { type: 'message', content };
+      } else {
+        logger.warn('No AI message found in chat response', json);
       }
+      return;
+    }
 
-      // Parse response - could be SSE or JSON
-      const text = response.text;
-      console.log('[SSE Debug] Full response text length:', text.length);
-      console.log('[SSE Debug] First 500 chars:', text.substring(0, 500));
-
-      // Check if response is JSON (not SSE)
-      const contentType = response.headers['content-type'] || '';
-      if (contentType.includes('application/json')) {
-        console.log('[SSE Debug] Response is JSON, not SSE - parsing as conversation response');
-        try {
-          const jsonResponse = JSON.parse(text);
-          console.log('[SSE Debug] Parsed JSON response:', jsonResponse);
-
-          // Extract the latest AI message from the messages array
-          if (jsonResponse.messages && Array.isArray(jsonResponse.messages)) {
-            console.log(`[SSE Debug] Found ${jsonResponse.messages.length} messages in response`);
-
-            // Find the last AI message
-            for (let i = jsonResponse.messages.length - 1; i >= 0; i--) {
-              const msg = jsonResponse.messages[i];
-              if (msg.type === 'ai' && msg.content) {
-                console.log('[SSE Debug] Found latest AI message:', msg);
-                console.log('[SSE Debug] Yielding AI content:', msg.content);
-                yield msg.content;
-                return;
-              }
-            }
-          }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let tokenCount = 0;
 
-          console.warn('[SSE Debug] No AI message found in response');
-        } catch (e) {
-          console.error('[SSE Debug] Failed to parse JSON response:', e);
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const { frames, rest } = this.extractFrames(buffer);
+        buffer = rest;
+
+        for (const frame of frames) {
+          const chunk = this.frameToChunk(frame);
+          if (chunk === 'done') {
+            logger.debug(`Chat stream finished after ${tokenCount} tokens`);
+            return;
+          }
+          if (chunk) {
+            tokenCount++;
+            yield chunk;
+          }
         }
-        return;
       }
 
-      // Original SSE parsing logic
-      const lines = text.split('\n');
-      console.log('[SSE Debug] Total lines:', lines.length);
+      // Flush a trailing frame that wasn't terminated by a blank line
+      buffer += decoder.decode();
+      const frame = this.parseFrame(buffer);
+      const chunk = frame ? this.frameToChunk(frame) : null;
+      if (chunk && chunk !== 'done') {
+        tokenCount++;
+        yield chunk;
+      }
 
-      let chunkCount = 0;
-      for (const line of lines) {
-        console.log('[SSE Debug] Processing line:', line.substring(0, 100));
+      logger.debug(`Chat stream closed after ${tokenCount} tokens`);
+    } finally {
+      // Stops the underlying request if the consumer bailed out early
+      reader.cancel().catch(() => undefined);
+    }
+  }
 
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6).trim();
-          console.log('[SSE Debug] Extracted data:', data);
-
-          if (data && data !== '[DONE]') {
-            try {
-              const parsed = JSON.parse(data);
-              console.log('[SSE Debug] Parsed JSON:', parsed);
-
-              if (parsed.content) {
-                chunkCount++;
-                console.log(`[SSE Debug] Yielding chunk ${chunkCount}:`, parsed.content);
-                yield parsed.content;
-              } else if (typeof parsed === 'string') {
-                chunkCount++;
-                console.log(`[SSE Debug] Yielding string chunk ${chunkCount}:`, parsed);
-                yield parsed;
-              } else {
-                console.warn('[SSE Debug] Parsed object has no content field:', parsed);
-              }
-            } catch (e) {
-              // Not JSON, yield as-is
-              chunkCount++;
-              console.log(`[SSE Debug] Yielding raw data chunk ${chunkCount}:`, data);
-              yield data;
-            }
-          }
-        }
+  /**
+   * Find the content of the most recent AI message in a conversation response
+   */
+  static extractLatestAIMessage(messages: any[] | undefined): string | null {
+    if (!Array.isArray(messages)) {
+      return null;
+    }
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const msg = messages[i];
+      if ((msg.type === 'ai' || msg.role === 'assistant') && msg.content) {
+        return msg.content;
       }
+    }
 
-      console.log(`[SSE Debug] Total chunks yielded: ${chunkCount}`);
-    } catch (error) {
-      console.error('[SSE Debug] Chat stream error:', error);
-      logger.error('Chat stream error', error);
-      throw error;
+    return null;
+  }
+
+  /**
+   * Split buffered text into complete SSE frames (separated by a blank line)
+   */
+  private extractFrames(buffer: string): { frames: SSEFrame[]; rest: string } {
+    const parts = buffer.split(/\r?\n\r?\n/);
+    const rest = parts.pop() || '';
+    const frames: SSEFrame[] = [];
+
+    for (const part of parts) {
+      const frame = this.parseFrame(part);
+      if (frame) {
+        frames.push(frame);
+      }
+    }
+
+    return { frames, rest };
+  }
+
+  /**
+   * Parse the field lines of a single SSE frame
+   */
+  private parseFrame(raw: string): SSEFrame | null {
+    let event: string | undefined;
+    const data: string[] = [];
+
+    for (const line of raw.split(/\r?\n/)) {
+      // Empty lines and ":" comments (keep-alives) carry no data
+      if (!line || line.startsWith(':')) continue;
+
+      const colonIndex = line.indexOf(':');
+      const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+      let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+      if (value.startsWith(' ')) {
+        value = value.slice(1);
+      }
+
+      if (field === 'event') {
+        event = value;
+      } else if (field === 'data') {
+        data.push(value);
+      }
+    }
+
+    if (!event && data.length === 0) {
+      return null;
+    }
+
+    return { event, data: data.join('\n') };
+  }
+
+  /**
+   * Turn an SSE frame into a chat chunk
+   * Returns 'done' when the server signals the end of the reply
+   */
+  private frameToChunk(frame: SSEFrame): ChatStreamChunk | 'done' | null {
+    if (frame.data === '[DONE]' || frame.event === 'complete' || frame.event === 'done') {
+      return 'done';
+    }
+
+    if (frame.event === 'error') {
+      throw new Error(`Chat stream error: ${frame.data}`);
+    }
+
+    if (!frame.data) {
+      return null;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(frame.data);
+    } catch {
+      // Plain text token
+      return { type: 'token', content: frame.data };
     }
+
+    if (typeof parsed === 'string') {
+      return parsed ? { type: 'token', content: parsed } : null;
+    }
+
+    if (parsed.type === 'error') {
+      throw new Error(`Chat stream error: ${parsed.message || parsed.error || frame.data}`);
+    }
+
+    if (parsed.type === 'complete' || parsed.type === 'done') {
+      return 'done';
+    }
+
+    const token = parsed.delta ?? parsed.token ?? parsed.content;
+    if (typeof token === 'string' && token.length > 0) {
+      return { type: 'token', content: token };
+    }
+
+    logger.debug('Ignoring chat stream frame without content', parsed);
+    return null;
   }
 }
@@ -4,6 +4,7 @@ import OpenNotebookPlugin from '../main';
 import { NotebookManager } from '../services/NotebookManager';
 import { NotebookModal } from '../modals/NotebookModal';
 import { LinkNotebookModal } from '../modals/LinkNotebookModal';
+import { ImportNotebookModal } from '../modals/ImportNotebookModal';
 import { NoticeHelper } from '../utils/NoticeHelper';
 import { logger } from '../utils/Logger';
 
@@ -78,6 +79,15 @@ export class NotebookCommands {
       }
     });
 
+    // Import a notebook into a folder
+    this.plugin.addCommand({
+      id: 'import-notebook',
+      name: 'Import Notebook',
+      callback: async () => {
+        await this.importNotebook();
+      }
+    });
+
     // Refresh notebook cache
     this.plugin.addCommand({
       id: 'refresh-notebooks',
@@ -229,6 +239,75 @@ export class NotebookCommands {
     }
   }
 
+  /**
+   * Import a notebook's sources and notes into a folder, then link the folder
+   * Notebooks already linked are refreshed in their own folder
+   */
+  public async importNotebook(): Promise<void> {
+    const loadingNotice = NoticeHelper.loading('Loading notebooks...');
+
+    try {
+      const notebooks = await this.notebookManager.getNotebooks(true);
+
+      NoticeHelper.hideNotice(loadingNotice);
+
+      if (notebooks.length === 0) {
+        NoticeHelper.info('No notebooks found');
+        return;
+      }
+
+      new ImportNotebookModal(this.app, notebooks, async (notebookId, folderPath) => {
+        const linkedId = this.notebookManager.getNotebookForFolder(folderPath);
+        if (linkedId && linkedId !== notebookId) {
+          NoticeHelper.warn(`${folderPath} is linked to another notebook. Choose a different folder.`);
+          return;
+        }
+
+        const notebook = notebooks.find(nb => nb.id === notebookId);
+        const importingNotice = NoticeHelper.loading(`Importing "${notebook?.name || notebookId}"...`);
+
+        try {
+          const existing = this.app.vault.getAbstractFileByPath(folderPath);
+          if (existing && !(existing instanceof TFolder)) {
+            throw new Error(`${folderPath} is a file`);
+          }
+          if (!existing) {
+            await this.app.vault.createFolder(folderPath);
+          }
+          const folder = this.app.vault.getAbstractFileByPath(folderPath);
+          if (!(folder instanceof TFolder)) {
+            throw new Error(`Could not create ${folderPath}`);
+          }
+
+          const results = await this.plugin.getContentSyncManager().importNotebook(folder, notebookId);
+
+          if (!linkedId) {
+            await this.notebookManager.mapFolderToNotebook(folder.path, notebookId);
+          }
+          await this.plugin.saveSettings();
+
+          NoticeHelper.hideNotice(importingNotice);
+          const summary = `${results.created} created, ${results.updated} updated, ${results.skipped} unchanged`;
+          if (results.failed > 0) {
+            NoticeHelper.warn(`Imported into ${folder.path}: ${summary}, ${results.failed} failed`);
+          } else {
+            NoticeHelper.success(`Imported into ${folder.path}: ${summary}`);
+          }
+
+        } catch (error) {
+          NoticeHelper.hideNotice(importingNotice);
+          NoticeHelper.error(`Failed to import notebook: ${error.message}`);
+          logger.error('Failed to import notebook', error);
+        }
+      }).open();
+
+    } catch (error) {
+      NoticeHelper.hideNotice(loadingNotice);
+      NoticeHelper.error(`Failed to load notebooks: ${error.message}`);
+      logger.error('Failed to load notebooks', error);
+    }
+  }
+
   /**
    * Unlink a folder from its notebook
    */
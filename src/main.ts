@@ -1,5 +1,5 @@
-import { Plugin, TFile, TFolder, Menu, TAbstractFile, WorkspaceLeaf } from 'obsidian';
-import { DEFAULT_SETTINGS, OpenNotebookSettings } from './types/settings';
+import { Plugin, TFile, TFolder, Menu, Notice, TAbstractFile, WorkspaceLeaf } from 'obsidian';
+import { DEFAULT_SETTINGS, OpenNotebookSettings, NotebookMappingStrategy, SyncTarget } from './types/settings';
 import { OpenNotebookSettingsTab } from './settings/SettingsTab';
 import { OpenNotebookClient } from './api/client';
 import { NotebookManager } from './services/NotebookManager';
@@ -7,14 +7,25 @@ import { NotebookCommands } from './commands/NotebookCommands';
 import { TransformCommands } from './commands/TransformCommands';
 import { ContentSyncManager } from './managers/ContentSyncManager';
 import { SyncIndicatorManager } from './managers/SyncIndicatorManager';
+import { SyncScheduler } from './managers/SyncScheduler';
 import { OfflineQueue } from './services/OfflineQueue';
+import { ConflictQueue } from './services/ConflictQueue';
 import { FeatureDetector } from './services/FeatureDetector';
+import { SyncJournal } from './services/SyncJournal';
+import { JobRunner } from './services/JobRunner';
 import { ChatView, VIEW_TYPE_CHAT } from './views/ChatView';
+import { SyncHistoryView, VIEW_TYPE_SYNC_HISTORY } from './views/SyncHistoryView';
+import { SyncDashboardView, VIEW_TYPE_SYNC_DASHBOARD } from './views/SyncDashboardView';
 import { SearchModal } from './modals/SearchModal';
 import { InsightsModal } from './modals/InsightsModal';
+import { SyncPlanModal } from './modals/SyncPlanModal';
+import { SyncProgressModal } from './modals/SyncProgressModal';
 import { logger } from './utils/Logger';
 import { NoticeHelper } from './utils/NoticeHelper';
-import { SyncOperation } from './types/sync';
+import { SyncOperation, ConflictInfo, SyncPlanItem, SyncPlanResult } from './types/sync';
+
+// Startup verification shows its progress once a vault has this many synced files
+const VERIFY_PROGRESS_MIN_FILES = 200;
 
 export default class OpenNotebookPlugin extends Plugin {
   settings: OpenNotebookSettings;
@@ -25,7 +36,10 @@ export default class OpenNotebookPlugin extends Plugin {
   private transformCommands: TransformCommands;
   private contentSyncManager: ContentSyncManager;
   private syncIndicatorManager: SyncIndicatorManager;
+  private syncScheduler: SyncScheduler;
   private offlineQueue: OfflineQueue;
+  private conflictQueue: ConflictQueue;
+  private syncJournal: SyncJournal;
   private featureDetector: FeatureDetector;
 
   async onload() {
@@ -42,7 +56,8 @@ export default class OpenNotebookPlugin extends Plugin {
       this.settings.apiEndpoint,
       this.settings.apiPassword,
       this.settings.requestTimeout,
-      this.settings.retryAttempts
+      this.settings.retryAttempts,
+      this.settings.maxRequestsPerSecond
     );
 
     // Initialize feature detector
@@ -53,11 +68,26 @@ export default class OpenNotebookPlugin extends Plugin {
       this.featureDetector.loadFeatures(this.settings.detectedFeatures);
     }
 
+    // Sync journal, kept next to the plugin so it survives restarts
+    const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+    this.syncJournal = new SyncJournal(this.app, `${pluginDir}/sync-journal.json`);
+    await this.syncJournal.load();
+
     // Initialize services
-    this.notebookManager = new NotebookManager(this.apiClient, this.settings);
+    this.notebookManager = new NotebookManager(this.apiClient, this.settings, this.app, () => this.saveSettings());
     this.contentSyncManager = new ContentSyncManager(this);
     this.syncIndicatorManager = new SyncIndicatorManager(this);
 
+    // .opennotebookignore files can only be found once the vault is loaded
+    this.app.workspace.onLayoutReady(async () => {
+      await this.contentSyncManager.reloadExclusionRules();
+      this.syncIndicatorManager.refreshAll();
+    });
+
+    // Start the scheduler for the configured sync mode
+    this.syncScheduler = new SyncScheduler(this);
+    this.syncScheduler.start();
+
     // Initialize offline queue
     this.offlineQueue = new OfflineQueue(
       this.apiClient,
@@ -67,12 +97,25 @@ export default class OpenNotebookPlugin extends Plugin {
       }
     );
 
-    // Load persisted queue
-    await this.offlineQueue.initialize(this.settings.offlineQueue || []);
+    // Failed file syncs are replayed through the sync manager, which writes their frontmatter
+    this.offlineQueue.setReplayHandler((operation) => this.contentSyncManager.replayOperation(operation));
+
+    // Load persisted queue, replaying it once the vault's files are available
+    this.offlineQueue.initialize(this.settings.offlineQueue || []);
+    this.app.workspace.onLayoutReady(() => {
+      this.offlineQueue.processQueue();
+    });
 
     // Start auto-processing
     this.offlineQueue.startAutoProcess();
 
+    // Initialize conflict queue (conflicts left for the user under the "Ask Me" policy)
+    this.conflictQueue = new ConflictQueue(async (conflicts: ConflictInfo[]) => {
+      this.settings.pendingConflicts = conflicts;
+      await this.saveSettings();
+    });
+    this.conflictQueue.initialize(this.settings.pendingConflicts || []);
+
     // Initialize commands
     this.notebookCommands = new NotebookCommands(this.app, this, this.notebookManager);
     this.notebookCommands.registerCommands();
@@ -93,6 +136,18 @@ export default class OpenNotebookPlugin extends Plugin {
       (leaf) => new ChatView(leaf, this)
     );
 
+    // Register Sync History View
+    this.registerView(
+      VIEW_TYPE_SYNC_HISTORY,
+      (leaf) => new SyncHistoryView(leaf, this)
+    );
+
+    // Register Sync Dashboard View
+    this.registerView(
+      VIEW_TYPE_SYNC_DASHBOARD,
+      (leaf) => new SyncDashboardView(leaf, this)
+    );
+
     // Add ribbon icon for chat
     this.addRibbonIcon('message-circle', 'Toggle Open Notebook Chat', () => {
       this.toggleChatView();
@@ -127,9 +182,23 @@ export default class OpenNotebookPlugin extends Plugin {
    * Verify sync state on startup (async, non-blocking)
    */
   private async verifySyncStateOnStartup(): Promise<void> {
+    let progressNotice: Notice | null = null;
     try {
       logger.info('Running startup sync verification...');
-      const results = await this.contentSyncManager.verifySyncState();
+      const results = await this.contentSyncManager.verifySyncState((done, total) => {
+        // Only large vaults take long enough to need a progress notice
+        if (total < VERIFY_PROGRESS_MIN_FILES) {
+          return;
+        }
+        progressNotice = progressNotice || NoticeHelper.loading('');
+        NoticeHelper.updateLoading(progressNotice, `Verifying sync state: ${done} / ${total} files`);
+      });
+      await this.recordVerification(
+        'startup',
+        results.verified + results.resynced + results.removed + results.failed,
+        results.resynced + results.removed,
+        results.failed
+      );
 
       if (results.resynced > 0 || results.removed > 0) {
         NoticeHelper.info(
@@ -144,19 +213,37 @@ export default class OpenNotebookPlugin extends Plugin {
       logger.error('Startup sync verification failed', error);
       NoticeHelper.error('Failed to verify sync state on startup');
     } finally {
+      if (progressNotice) {
+        NoticeHelper.hideNotice(progressNotice);
+      }
       // Always mark initialization as complete, even if verification failed
       this.contentSyncManager.setInitializationComplete();
     }
   }
 
   async onunload() {
+    // Stop sync timers, keeping unsynced changes pending
+    if (this.syncScheduler) {
+      await this.syncScheduler.destroy();
+    }
+
     // Clean up offline queue
     if (this.offlineQueue) {
       await this.offlineQueue.cleanup();
     }
 
-    // Clean up chat views
+    // Write journal entries and sidecar metadata still waiting for the batched save
+    if (this.syncJournal) {
+      await this.syncJournal.flush();
+    }
+    if (this.contentSyncManager) {
+      await this.contentSyncManager.flushMetadata();
+    }
+
+    // Clean up chat, history and dashboard views
     this.app.workspace.detachLeavesOfType(VIEW_TYPE_CHAT);
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE_SYNC_HISTORY);
+    this.app.workspace.detachLeavesOfType(VIEW_TYPE_SYNC_DASHBOARD);
     logger.info('Unloading Open Notebook plugin');
   }
 
@@ -175,6 +262,7 @@ export default class OpenNotebookPlugin extends Plugin {
       this.apiClient.setPassword(this.settings.apiPassword);
       this.apiClient.setTimeout(this.settings.requestTimeout);
       this.apiClient.setRetryAttempts(this.settings.retryAttempts);
+      this.apiClient.setRequestsPerSecond(this.settings.maxRequestsPerSecond);
     }
   }
 
@@ -184,35 +272,7 @@ export default class OpenNotebookPlugin extends Plugin {
       id: 'test-connection',
       name: 'Test API Connection',
       callback: async () => {
-        try {
-          NoticeHelper.info('Testing connection...');
-
-          const isConnected = await this.apiClient.testConnection();
-
-          if (isConnected) {
-            // Get API version
-            const version = await this.apiClient.getApiVersion();
-            this.settings.apiVersion = version;
-
-            // Detect available features
-            NoticeHelper.info('Detecting API features...');
-            const features = await this.featureDetector.detectFeatures();
-            this.settings.detectedFeatures = features;
-            await this.saveSettings();
-
-            const availableCount = this.featureDetector.getAvailableFeaturesList().length;
-
-            this.setConnectionStatus('connected');
-            NoticeHelper.success(`Connected to Open Notebook (v${version}) - ${availableCount} features available`);
-          } else {
-            this.setConnectionStatus('error');
-            NoticeHelper.error('Connection test failed');
-          }
-        } catch (error) {
-          logger.error('Connection test failed', error);
-          this.setConnectionStatus('error');
-          NoticeHelper.error(`Connection failed: ${error.message}`);
-        }
+        await this.testConnection();
       }
     });
 
@@ -231,9 +291,10 @@ export default class OpenNotebookPlugin extends Plugin {
       name: 'Sync Current File to Open Notebook',
       checkCallback: (checking: boolean) => {
         const file = this.app.workspace.getActiveFile();
-        if (file && file.extension === 'md' && file.parent) {
-          const notebookId = this.notebookManager.getNotebookForFolder(file.parent.path);
-          if (notebookId) {
+        if (file && this.contentSyncManager.isSyncableFile(file)) {
+          const hasNotebook = !!this.notebookManager.getNotebookForFile(file) ||
+            !!this.notebookManager.getNotebookNameForFile(file);
+          if (hasNotebook) {
             if (!checking) {
               this.syncCurrentFile();
             }
@@ -281,27 +342,50 @@ export default class OpenNotebookPlugin extends Plugin {
       }
     });
 
+    // Reload exclusion rules command
+    this.addCommand({
+      id: 'reload-exclusion-rules',
+      name: 'Reload Exclusion Rules',
+      callback: async () => {
+        await this.contentSyncManager.reloadExclusionRules();
+        this.syncIndicatorManager?.refreshAll();
+        NoticeHelper.info('Exclusion rules reloaded');
+      }
+    });
+
     // Verify sync state command
     this.addCommand({
       id: 'verify-sync-state',
       name: 'Verify Sync State (Reconcile with Open Notebook)',
       callback: async () => {
-        try {
-          NoticeHelper.info('Verifying sync state...');
-          const results = await this.contentSyncManager.verifySyncState();
+        await this.previewVerification();
+      }
+    });
 
-          const message = [
-            `Verified: ${results.verified}`,
-            results.resynced > 0 ? `Resynced: ${results.resynced}` : null,
-            results.removed > 0 ? `Cleaned up: ${results.removed}` : null,
-            results.failed > 0 ? `Failed: ${results.failed}` : null
-          ].filter(Boolean).join(', ');
+    // Sync dashboard command
+    this.addCommand({
+      id: 'open-sync-dashboard',
+      name: 'Open Sync Status Dashboard',
+      callback: async () => {
+        await this.activateSyncDashboardView();
+      }
+    });
 
-          NoticeHelper.success(`Sync verification complete. ${message}`);
-        } catch (error) {
-          logger.error('Sync verification failed', error);
-          NoticeHelper.error(`Failed to verify sync state: ${error.message || 'Unknown error'}`);
-        }
+    // Sync history command
+    this.addCommand({
+      id: 'open-sync-history',
+      name: 'Open Sync History',
+      callback: async () => {
+        await this.activateSyncHistoryView();
+      }
+    });
+
+    // Review queued conflicts command
+    this.addCommand({
+      id: 'review-conflicts',
+      name: 'Review Sync Conflicts',
+      callback: () => {
+        this.reviewQueuedConflicts();
       }
     });
 
@@ -332,7 +416,7 @@ export default class OpenNotebookPlugin extends Plugin {
           return false;
         }
 
-        const notebookId = this.notebookManager.getNotebookForFolder(file.parent.path);
+        const notebookId = this.notebookManager.getNotebookForFile(file);
         if (!notebookId) {
           return false;
         }
@@ -457,44 +541,58 @@ export default class OpenNotebookPlugin extends Plugin {
     this.addCommand({
       id: 'full-sync',
       name: 'Full Sync (All Mapped Folders)',
-      callback: async () => {
-        try {
-          NoticeHelper.info('Starting full sync of all mapped folders...');
+      callback: () => {
+        this.previewFullSync();
+      }
+    });
 
-          const mappings = this.settings.folderToNotebook;
-          const folderPaths = Object.keys(mappings);
+    // Sync pending changes command
+    this.addCommand({
+      id: 'sync-pending-changes',
+      name: 'Sync Pending Changes',
+      callback: async () => {
+        const pendingCount = this.syncScheduler.getPendingCount();
+        if (pendingCount === 0) {
+          NoticeHelper.info('No pending changes to sync');
+          return;
+        }
 
-          if (folderPaths.length === 0) {
-            NoticeHelper.warn('No folders are mapped to notebooks');
-            return;
-          }
+        const loadingNotice = NoticeHelper.loading(`Syncing ${pendingCount} pending file${pendingCount === 1 ? '' : 's'}...`);
+        const results = await this.syncScheduler.flush(true);
+        NoticeHelper.hideNotice(loadingNotice);
 
-          let totalSynced = 0;
-          let totalFailed = 0;
+        if (results.failed === 0) {
+          NoticeHelper.success(`Synced ${results.synced} pending file${results.synced === 1 ? '' : 's'}`);
+        } else {
+          NoticeHelper.warn(`Synced ${results.synced} pending files, ${results.failed} failed and remain pending`);
+        }
+      }
+    });
 
-          for (const folderPath of folderPaths) {
-            const folder = this.app.vault.getAbstractFileByPath(folderPath);
-            if (folder instanceof TFolder) {
-              const results = await this.contentSyncManager.syncFolder(folder, mappings[folderPath]);
-              totalSynced += results.synced;
-              totalFailed += results.failed;
-            }
-          }
+    // Pull notes command
+    this.addCommand({
+      id: 'pull-notes',
+      name: 'Pull Notes from Open Notebook',
+      callback: async () => {
+        if (Object.keys(this.settings.folderToNotebook).length === 0) {
+          NoticeHelper.warn('No folders are mapped to notebooks');
+          return;
+        }
 
-          // Update last sync timestamp if any files were synced
-          if (totalSynced > 0) {
-            this.settings.lastSyncTimestamp = Date.now();
-            await this.saveSettings();
-          }
+        const loadingNotice = NoticeHelper.loading('Pulling notes from Open Notebook...');
+        try {
+          const results = await this.pullAllNotes();
+          NoticeHelper.hideNotice(loadingNotice);
 
-          if (totalFailed === 0) {
-            NoticeHelper.success(`Full sync complete: ${totalSynced} files synced`);
+          if (results.conflicts > 0) {
+            NoticeHelper.warn(`Pulled notes: ${results.created} new, ${results.updated} updated, ${results.conflicts} skipped due to local changes`);
           } else {
-            NoticeHelper.warn(`Full sync complete: ${totalSynced} synced, ${totalFailed} failed`);
+            NoticeHelper.success(`Pulled notes: ${results.created} new, ${results.updated} updated`);
           }
         } catch (error) {
-          logger.error('Full sync failed', error);
-          NoticeHelper.error(`Full sync failed: ${error.message || 'Unknown error'}`);
+          NoticeHelper.hideNotice(loadingNotice);
+          logger.error('Failed to pull notes', error);
+          NoticeHelper.error(`Failed to pull notes: ${error.message || 'Unknown error'}`);
         }
       }
     });
@@ -513,7 +611,7 @@ export default class OpenNotebookPlugin extends Plugin {
           if (chatView instanceof ChatView) {
             const activeFile = this.app.workspace.getActiveFile();
             if (activeFile && activeFile.parent) {
-              const notebookId = this.notebookManager.getNotebookForFolder(activeFile.parent.path);
+              const notebookId = this.notebookManager.getNotebookForFile(activeFile);
               if (notebookId) {
                 // Refresh to create new session
                 await chatView.setNotebook(notebookId);
@@ -759,7 +857,7 @@ export default class OpenNotebookPlugin extends Plugin {
     // File created
     this.registerEvent(
       this.app.vault.on('create', (file) => {
-        if (file instanceof TFile && file.extension === 'md') {
+        if (file instanceof TFile && this.contentSyncManager.isSyncableFile(file)) {
           this.contentSyncManager.onFileCreated(file);
         }
       })
@@ -768,8 +866,24 @@ export default class OpenNotebookPlugin extends Plugin {
     // File modified
     this.registerEvent(
       this.app.vault.on('modify', (file) => {
-        if (file instanceof TFile && file.extension === 'md') {
-          this.contentSyncManager.onFileModified(file);
+        if (!(file instanceof TFile) || !this.contentSyncManager.isSyncableFile(file)) {
+          return;
+        }
+
+        // Attachments never reach the metadata cache, so they always sync from here
+        if (file.extension !== 'md' ||
+            this.settings.mappingStrategy === NotebookMappingStrategy.FOLDER) {
+          this.syncScheduler.scheduleSync(file);
+        }
+      })
+    );
+
+    // Tag and property strategies need the re-indexed metadata, so wait for the cache
+    this.registerEvent(
+      this.app.metadataCache.on('changed', (file) => {
+        if (file.extension === 'md' &&
+            this.settings.mappingStrategy !== NotebookMappingStrategy.FOLDER) {
+          this.syncScheduler.scheduleSync(file);
         }
       })
     );
@@ -777,7 +891,9 @@ export default class OpenNotebookPlugin extends Plugin {
     // File deleted
     this.registerEvent(
       this.app.vault.on('delete', (file) => {
-        if (file instanceof TFile && file.extension === 'md') {
+        if (file instanceof TFile && this.contentSyncManager.isSyncableFile(file)) {
+          this.syncScheduler.cancel(file.path);
+          this.conflictQueue.remove(file.path);
           this.contentSyncManager.onFileDeleted(file);
         }
       })
@@ -786,8 +902,20 @@ export default class OpenNotebookPlugin extends Plugin {
     // File renamed
     this.registerEvent(
       this.app.vault.on('rename', (file, oldPath) => {
-        if (file instanceof TFile && file.extension === 'md') {
+        if (file instanceof TFile && this.contentSyncManager.isSyncableFile(file)) {
+          const onError = (error: unknown) => {
+            logger.error(`Failed to follow rename of ${oldPath} to ${file.path}`, error);
+            NoticeHelper.error(`Failed to update pending sync state for ${file.basename}`);
+          };
+          this.syncScheduler.renamePath(oldPath, file.path).catch(onError);
+          this.conflictQueue.renamePath(oldPath, file.path).catch(onError);
+          this.offlineQueue.renamePath(oldPath, file.path).catch(onError);
           this.contentSyncManager.onFileRenamed(file, oldPath);
+        } else if (file instanceof TFolder) {
+          this.onFolderRenamed(file, oldPath).catch(error => {
+            logger.error(`Failed to follow folder rename of ${oldPath} to ${file.path}`, error);
+            NoticeHelper.error(`Failed to update notebook links for ${file.name} - run "Verify Sync State" to repair them`);
+          });
         }
       })
     );
@@ -795,6 +923,16 @@ export default class OpenNotebookPlugin extends Plugin {
     logger.info('File event handlers registered');
   }
 
+  /**
+   * Keep folder links, exclusions and sync mappings pointing at a renamed or moved folder
+   */
+  private async onFolderRenamed(folder: TFolder, oldPath: string): Promise<void> {
+    if (this.notebookManager.renameFolder(oldPath, folder.path)) {
+      await this.saveSettings();
+    }
+    await this.contentSyncManager.onFolderRenamed(oldPath, folder.path);
+  }
+
   /**
    * Register active file change handler to update chat context
    */
@@ -821,8 +959,8 @@ export default class OpenNotebookPlugin extends Plugin {
           return;
         }
 
-        // Get notebook for the file's folder
-        const notebookId = this.notebookManager.getNotebookForFolder(activeFile.parent.path);
+        // Get notebook for the file's folder, tag or property
+        const notebookId = this.notebookManager.getNotebookForFile(activeFile);
         if (!notebookId) {
           // File's folder is not linked - show not linked state
           chatView.showNotLinked();
@@ -837,6 +975,125 @@ export default class OpenNotebookPlugin extends Plugin {
     logger.info('Active file change handler registered');
   }
 
+  /**
+   * Preview a full sync of all mapped folders, then run the changes the user keeps
+   */
+  private async previewFullSync(): Promise<void> {
+    const usesFolders = this.settings.mappingStrategy === NotebookMappingStrategy.FOLDER;
+    if (Object.keys(this.settings.folderToNotebook).length === 0 && usesFolders) {
+      NoticeHelper.warn('No folders are mapped to notebooks');
+      return;
+    }
+
+    try {
+      NoticeHelper.info('Planning full sync of all mapped folders...');
+      const plan = await this.contentSyncManager.buildSyncPlan();
+
+      new SyncPlanModal(
+        this.app,
+        'Full Sync',
+        plan,
+        (item) => this.contentSyncManager.executePlanItem(item),
+        async (results) => {
+          try {
+            // In notes mode, bring in notes created in Open Notebook after pushing local edits
+            if (this.settings.syncTarget === SyncTarget.NOTES) {
+              await this.pullAllNotes();
+            }
+            await this.reportPlanResults('Full sync', results);
+          } catch (error) {
+            logger.error('Failed to finish full sync', error);
+            NoticeHelper.error(`Failed to finish full sync: ${error.message || 'Unknown error'}`);
+          }
+        },
+        this.settings.syncConcurrency
+      ).open();
+    } catch (error) {
+      logger.error('Full sync failed', error);
+      NoticeHelper.error(`Full sync failed: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Check sync state against Open Notebook and preview the fixes
+   */
+  public async previewVerification(): Promise<void> {
+    try {
+      NoticeHelper.info('Checking sync state against Open Notebook...');
+      const plan = await this.contentSyncManager.buildSyncPlan({ verifyRemote: true });
+
+      new SyncPlanModal(
+        this.app,
+        'Verify Sync State',
+        plan,
+        (item) => this.contentSyncManager.executePlanItem(item),
+        async (results) => {
+          try {
+            const failed = Array.from(results.values()).filter(result => !result.success).length;
+            await this.recordVerification('manual', plan.length, results.size - failed, failed);
+            await this.reportPlanResults('Sync verification', results);
+          } catch (error) {
+            logger.error('Failed to finish sync verification', error);
+            NoticeHelper.error(`Failed to finish sync verification: ${error.message || 'Unknown error'}`);
+          }
+        },
+        this.settings.syncConcurrency
+      ).open();
+    } catch (error) {
+      logger.error('Sync verification failed', error);
+      NoticeHelper.error(`Failed to verify sync state: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remember the outcome of a verification for the dashboard
+   */
+  private async recordVerification(trigger: 'startup' | 'manual', checked: number, fixed: number, failed: number): Promise<void> {
+    this.settings.lastVerification = { timestamp: Date.now(), trigger, checked, fixed, failed };
+    await this.saveSettings();
+  }
+
+  /**
+   * Summarize an executed sync plan
+   */
+  private async reportPlanResults(label: string, results: Map<SyncPlanItem, SyncPlanResult>): Promise<void> {
+    const all = Array.from(results.values());
+    const succeeded = all.filter(result => result.success).length;
+    const failed = all.length - succeeded;
+
+    if (succeeded > 0) {
+      this.settings.lastSyncTimestamp = Date.now();
+      await this.saveSettings();
+    }
+
+    if (failed === 0) {
+      NoticeHelper.success(`${label} complete: ${succeeded} change${succeeded === 1 ? '' : 's'} applied`);
+    } else {
+      NoticeHelper.warn(`${label} complete: ${succeeded} applied, ${failed} failed`);
+    }
+  }
+
+  /**
+   * Pull notes from every linked notebook into its folder
+   */
+  private async pullAllNotes(): Promise<{ created: number; updated: number; conflicts: number }> {
+    const totals = { created: 0, updated: 0, conflicts: 0 };
+
+    for (const [folderPath, notebookId] of Object.entries(this.settings.folderToNotebook)) {
+      const folder = this.app.vault.getAbstractFileByPath(folderPath);
+      if (!(folder instanceof TFolder)) {
+        continue;
+      }
+
+      const results = await this.contentSyncManager.pullNotes(folder, notebookId);
+      totals.created += results.created;
+      totals.updated += results.updated;
+      totals.conflicts += results.conflicts;
+    }
+
+    return totals;
+  }
+
   /**
    * Sync current file to Open Notebook
    */
@@ -847,8 +1104,8 @@ export default class OpenNotebookPlugin extends Plugin {
       return;
     }
 
-    if (file.extension !== 'md') {
-      NoticeHelper.warn('Can only sync markdown files');
+    if (!this.contentSyncManager.isSyncableFile(file)) {
+      NoticeHelper.warn('Can only sync markdown files and supported attachments');
       return;
     }
 
@@ -857,7 +1114,14 @@ export default class OpenNotebookPlugin extends Plugin {
       return;
     }
 
-    const notebookId = this.notebookManager.getNotebookForFolder(file.parent.path);
+    let notebookId: string | undefined;
+    try {
+      notebookId = await this.notebookManager.resolveNotebookForFile(file);
+    } catch (error) {
+      logger.error('Failed to resolve notebook', error);
+      NoticeHelper.error(`Failed to sync ${file.basename}: ${error.message || 'Unknown error'}`);
+      return;
+    }
     if (!notebookId) {
       NoticeHelper.warn(`Folder "${file.parent.path}" is not linked to any notebook. Right-click the folder to link it.`);
       return;
@@ -932,9 +1196,9 @@ export default class OpenNotebookPlugin extends Plugin {
     try {
       // Get sync metadata
       const metadata = await this.contentSyncManager.getSyncMetadata(file);
-      const sourceId = metadata.on_source_id;
+      const resourceId = metadata.on_note_id || metadata.on_source_id;
 
-      if (!sourceId) {
+      if (!resourceId) {
         NoticeHelper.info('File is not synced to Open Notebook');
         return;
       }
@@ -942,18 +1206,30 @@ export default class OpenNotebookPlugin extends Plugin {
       NoticeHelper.info('Checking for conflicts...');
 
       // Check for conflicts
-      const conflict = await this.contentSyncManager.checkForConflict(file, sourceId);
+      const conflict = await this.contentSyncManager.checkForConflict(
+        file,
+        resourceId,
+        metadata.on_note_id ? 'note' : 'source'
+      );
 
-      if (conflict) {
+      if (conflict && !this.contentSyncManager.canApplyRemoteVersion(conflict)) {
+        NoticeHelper.warn('Changed on both sides - the Open Notebook text is preprocessed, so sync the file to keep the Obsidian version');
+      } else if (conflict) {
         // Show conflict modal
         const { ConflictModal } = await import('./modals/ConflictModal');
-        new ConflictModal(this.app, conflict, async (choice) => {
-          if (choice === 'local') {
-            await this.contentSyncManager.resolveConflict(conflict, true);
-          } else if (choice === 'remote') {
-            await this.contentSyncManager.resolveConflict(conflict, false);
-          } else {
-            NoticeHelper.info('Conflict resolution cancelled');
+        new ConflictModal(this.app, conflict, async (choice, mergedContent) => {
+          try {
+            if (choice === 'local') {
+              await this.contentSyncManager.resolveConflict(conflict, true);
+            } else if (choice === 'remote') {
+              await this.contentSyncManager.resolveConflict(conflict, false);
+            } else if (choice === 'merge' && mergedContent !== undefined) {
+              await this.contentSyncManager.resolveConflictWithMerge(conflict, mergedContent);
+            } else {
+              NoticeHelper.info('Conflict resolution cancelled');
+            }
+          } catch (error) {
+            // The resolve methods already reported the error
           }
         }).open();
       } else {
@@ -965,20 +1241,66 @@ export default class OpenNotebookPlugin extends Plugin {
     }
   }
 
+  /**
+   * Walk through queued conflicts one at a time
+   */
+  public async reviewQueuedConflicts(): Promise<void> {
+    const conflicts = this.conflictQueue.getAll();
+    if (conflicts.length === 0) {
+      NoticeHelper.info('No sync conflicts to review');
+      return;
+    }
+
+    const conflict = conflicts[0];
+
+    // File deleted since the conflict was queued - nothing left to resolve
+    if (!(this.app.vault.getAbstractFileByPath(conflict.filePath) instanceof TFile)) {
+      await this.conflictQueue.remove(conflict.filePath);
+      await this.reviewQueuedConflicts();
+      return;
+    }
+
+    const { ConflictModal } = await import('./modals/ConflictModal');
+    new ConflictModal(this.app, conflict, async (choice, mergedContent) => {
+      if (choice === 'cancel') {
+        const remaining = this.conflictQueue.getQueueSize();
+        NoticeHelper.info(`${remaining} conflict${remaining === 1 ? '' : 's'} left to review`);
+        return;
+      }
+
+      try {
+        if (choice === 'merge' && mergedContent !== undefined) {
+          await this.contentSyncManager.resolveConflictWithMerge(conflict, mergedContent);
+        } else {
+          await this.contentSyncManager.resolveConflict(conflict, choice === 'local');
+        }
+      } catch (error) {
+        // The resolve methods already reported the error - stop reviewing
+        return;
+      }
+
+      if (this.conflictQueue.getQueueSize() > 0) {
+        await this.reviewQueuedConflicts();
+      }
+    }).open();
+  }
+
   /**
    * Sync folder to Open Notebook
    */
   private async syncFolder(folder: TFolder): Promise<void> {
-    const notebookId = this.notebookManager.getNotebookForFolder(folder.path);
+    const notebookId = this.notebookManager.resolveFolderMapping(folder.path)?.notebookId;
     if (!notebookId) {
       NoticeHelper.warn('Folder is not linked to any notebook. Right-click the folder to link it.');
       return;
     }
 
-    const loadingNotice = NoticeHelper.loading(`Syncing folder: ${folder.name}...`);
+    const runner = new JobRunner(this.settings.syncConcurrency);
+    const progressModal = new SyncProgressModal(this.app, `Syncing ${folder.name}`, runner);
+    progressModal.open();
 
     try {
-      const results = await this.contentSyncManager.syncFolder(folder, notebookId);
+      const results = await this.contentSyncManager.syncFolder(folder, notebookId, runner, update => progressModal.update(update));
 
       // Update last sync timestamp if any files were synced
       if (results.synced > 0) {
@@ -986,19 +1308,26 @@ export default class OpenNotebookPlugin extends Plugin {
         await this.saveSettings();
       }
 
-      NoticeHelper.hideNotice(loadingNotice);
+      const parts = [`Synced ${results.synced} file${results.synced === 1 ? '' : 's'}`];
+      if (results.failed > 0) {
+        parts.push(`${results.failed} failed`);
+      }
+      if (results.skipped > 0) {
+        parts.push(`${results.skipped} cancelled`);
+      }
+      progressModal.finish(parts.join(', '));
 
-      if (results.synced === 0 && results.failed === 0) {
+      if (results.synced === 0 && results.failed === 0 && results.skipped === 0) {
         NoticeHelper.info('All files are already up to date');
-      } else if (results.failed === 0) {
+      } else if (results.failed === 0 && results.skipped === 0) {
         NoticeHelper.success(`Successfully synced ${results.synced} file${results.synced === 1 ? '' : 's'}`);
-      } else if (results.synced === 0) {
+      } else if (results.synced === 0 && results.skipped === 0) {
         NoticeHelper.error(`Failed to sync ${results.failed} file${results.failed === 1 ? '' : 's'}`);
       } else {
-        NoticeHelper.warn(`Synced ${results.synced}, failed ${results.failed}`);
+        NoticeHelper.warn(parts.join(', '));
       }
     } catch (error) {
-      NoticeHelper.hideNotice(loadingNotice);
+      progressModal.finish(`Failed: ${error.message || 'Unknown error'}`);
       logger.error('Failed to sync folder', error);
       NoticeHelper.error(`Failed to sync folder: ${error.message || 'Unknown error'}`);
     }
@@ -1007,6 +1336,9 @@ export default class OpenNotebookPlugin extends Plugin {
   private updateStatusBar(): void {
     const { connectionStatus, showSyncStatus, lastSyncTimestamp } = this.settings;
 
+    // Everything the status bar shows is on the dashboard too
+    this.refreshSyncDashboard();
+
     if (!showSyncStatus) {
       this.statusBarItem.setText('');
       return;
@@ -1039,6 +1371,26 @@ export default class OpenNotebookPlugin extends Plugin {
       queueIndicator.setAttribute('title', `${queueSize} operation${queueSize === 1 ? '' : 's'} in queue`);
     }
 
+    // Add unresolved conflict count
+    const conflictCount = this.conflictQueue?.getQueueSize() || 0;
+    if (conflictCount > 0) {
+      const conflictIndicator = container.createSpan({
+        text: ` • ${conflictCount} conflict${conflictCount === 1 ? '' : 's'}`,
+        cls: 'status-conflict-count'
+      });
+      conflictIndicator.setAttribute('title', 'Run "Review Sync Conflicts" to resolve');
+    }
+
+    // Add pending file count (interval and manual sync modes)
+    const pendingCount = this.syncScheduler?.getPendingCount() || 0;
+    if (pendingCount > 0) {
+      const pendingIndicator = container.createSpan({
+        text: ` • ${pendingCount} pending`,
+        cls: 'status-pending-count'
+      });
+      pendingIndicator.setAttribute('title', `${pendingCount} file${pendingCount === 1 ? '' : 's'} waiting to sync`);
+    }
+
     // Add last sync time if available
     if (lastSyncTimestamp) {
       const now = Date.now();
@@ -1067,6 +1419,12 @@ export default class OpenNotebookPlugin extends Plugin {
     if (queueSize > 0) {
       tooltip += `\n${queueSize} operation${queueSize === 1 ? '' : 's'} in queue`;
     }
+    if (conflictCount > 0) {
+      tooltip += `\n${conflictCount} sync conflict${conflictCount === 1 ? '' : 's'} to review`;
+    }
+    if (pendingCount > 0) {
+      tooltip += `\n${pendingCount} file${pendingCount === 1 ? '' : 's'} waiting to sync`;
+    }
     if (lastSyncTimestamp) {
       tooltip += `\nLast synced: ${new Date(lastSyncTimestamp).toLocaleString()}`;
     }
@@ -1095,6 +1453,41 @@ export default class OpenNotebookPlugin extends Plugin {
     }
   }
 
+  /**
+   * Test the connection, then refresh the API version and detected features
+   */
+  public async testConnection(): Promise<void> {
+    try {
+      NoticeHelper.info('Testing connection...');
+
+      const isConnected = await this.apiClient.testConnection();
+
+      if (isConnected) {
+        // Get API version
+        const version = await this.apiClient.getApiVersion();
+        this.settings.apiVersion = version;
+
+        // Detect available features
+        NoticeHelper.info('Detecting API features...');
+        const features = await this.featureDetector.detectFeatures();
+        this.settings.detectedFeatures = features;
+        await this.saveSettings();
+
+        const availableCount = this.featureDetector.getAvailableFeaturesList().length;
+
+        this.setConnectionStatus('connected');
+        NoticeHelper.success(`Connected to Open Notebook (v${version}) - ${availableCount} features available`);
+      } else {
+        this.setConnectionStatus('error');
+        NoticeHelper.error('Connection test failed');
+      }
+    } catch (error) {
+      logger.error('Connection test failed', error);
+      this.setConnectionStatus('error');
+      NoticeHelper.error(`Connection failed: ${error.message}`);
+    }
+  }
+
   public setConnectionStatus(status: 'connected' | 'disconnected' | 'error'): void {
     this.settings.connectionStatus = status;
     this.settings.lastConnectionCheck = Date.now();
@@ -1277,12 +1670,44 @@ export default class OpenNotebookPlugin extends Plugin {
    */
   private addFolderContextMenu(menu: Menu, folder: TFolder): void {
     logger.debug(`Adding context menu for folder: ${folder.path}`);
-    const notebookId = this.notebookManager.getNotebookForFolder(folder.path);
+    const mapping = this.notebookManager.resolveFolderMapping(folder.path);
+    const notebookId = mapping?.notebookId;
 
     // Add separator to group our items
     menu.addSeparator();
 
-    if (notebookId) {
+    if (mapping && notebookId && mapping.inherited) {
+      // Subfolder of a linked folder - sync with the parent's notebook, or opt out
+      menu.addItem((item) => {
+        item
+          .setTitle('Sync Folder to Open Notebook')
+          .setIcon('refresh-cw')
+          .onClick(async () => {
+            await this.syncFolder(folder);
+          });
+      });
+
+      menu.addItem((item) => {
+        item
+          .setTitle(`Exclude from "${mapping.folderPath}" Notebook`)
+          .setIcon('folder-minus')
+          .onClick(async () => {
+            this.notebookManager.excludeSubfolder(folder.path);
+            await this.saveSettings();
+            this.syncIndicatorManager?.refreshAll();
+            NoticeHelper.success(`${folder.path} no longer syncs to the notebook linked to ${mapping.folderPath}`);
+          });
+      });
+
+      menu.addItem((item) => {
+        item
+          .setTitle('Link to a Different Notebook')
+          .setIcon('link')
+          .onClick(async () => {
+            await this.notebookCommands.linkFolderToNotebook(folder);
+          });
+      });
+    } else if (notebookId) {
       // Folder is mapped - show sync and unlink options
       menu.addItem((item) => {
         item
@@ -1312,6 +1737,20 @@ export default class OpenNotebookPlugin extends Plugin {
       });
     } else {
       // Folder is not mapped - show create and link options
+      if (this.notebookManager.isExcludedSubfolder(folder.path)) {
+        menu.addItem((item) => {
+          item
+            .setTitle('Include in Parent Notebook')
+            .setIcon('folder-plus')
+            .onClick(async () => {
+              this.notebookManager.includeSubfolder(folder.path);
+              await this.saveSettings();
+              this.syncIndicatorManager?.refreshAll();
+              NoticeHelper.success(`${folder.path} syncs with its parent folder's notebook again`);
+            });
+        });
+      }
+
       menu.addItem((item) => {
         item
           .setTitle('Create Open Notebook')
@@ -1452,10 +1891,83 @@ export default class OpenNotebookPlugin extends Plugin {
   }
 
   /**
-   * Get notebook ID for a folder path
+   * Get sync scheduler instance
+   */
+  public getSyncScheduler(): SyncScheduler {
+    return this.syncScheduler;
+  }
+
+  /**
+   * Get offline queue instance
+   */
+  public getOfflineQueue(): OfflineQueue {
+    return this.offlineQueue;
+  }
+
+  /**
+   * Get conflict queue instance
+   */
+  public getConflictQueue(): ConflictQueue {
+    return this.conflictQueue;
+  }
+
+  /**
+   * Get sync journal instance
+   */
+  public getSyncJournal(): SyncJournal {
+    return this.syncJournal;
+  }
+
+  /**
+   * Open the sync dashboard in the right sidebar, reusing an open one
+   */
+  public async activateSyncDashboardView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_SYNC_DASHBOARD)[0] || null;
+
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      if (leaf) {
+        await leaf.setViewState({ type: VIEW_TYPE_SYNC_DASHBOARD, active: true });
+      }
+    }
+
+    if (leaf) {
+      workspace.revealLeaf(leaf);
+    }
+  }
+
+  /**
+   * Re-render open dashboards after sync state changed
+   */
+  private refreshSyncDashboard(): void {
+    this.app.workspace.getLeavesOfType(VIEW_TYPE_SYNC_DASHBOARD).forEach(leaf => {
+      if (leaf.view instanceof SyncDashboardView) {
+        leaf.view.requestRender();
+      }
+    });
+  }
+
+  /**
+   * Open the sync history view in a main tab, reusing an open one
+   */
+  public async activateSyncHistoryView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(VIEW_TYPE_SYNC_HISTORY)[0] || null;
+
+    if (!leaf) {
+      leaf = workspace.getLeaf(true);
+      await leaf.setViewState({ type: VIEW_TYPE_SYNC_HISTORY, active: true });
+    }
+
+    workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * Get notebook ID for a folder path, including mappings inherited from parent folders
    */
   public getFolderMapping(folderPath: string): string | undefined {
-    return this.notebookManager.getNotebookForFolder(folderPath);
+    return this.notebookManager.resolveFolderMapping(folderPath)?.notebookId;
   }
 
   /**
@@ -1491,7 +2003,7 @@ export default class OpenNotebookPlugin extends Plugin {
             if (!activeFile || !activeFile.parent) {
               view.showNotLinked();
             } else {
-              const notebookId = this.notebookManager.getNotebookForFolder(activeFile.parent.path);
+              const notebookId = this.notebookManager.getNotebookForFile(activeFile);
               if (notebookId) {
                 await view.setNotebook(notebookId);
               } else {
@@ -1539,7 +2051,7 @@ export default class OpenNotebookPlugin extends Plugin {
       if (view instanceof ChatView) {
         const activeFile = workspace.getActiveFile();
         if (activeFile && activeFile.parent) {
-          const notebookId = this.notebookManager.getNotebookForFolder(activeFile.parent.path);
+          const notebookId = this.notebookManager.getNotebookForFile(activeFile);
           if (notebookId) {
             await view.setNotebook(notebookId);
           }
@@ -1,32 +1,80 @@
 // Content synchronization manager for syncing Obsidian notes to Open Notebook
-import { TFile, TFolder, Notice } from 'obsidian';
+import { TFile, TFolder, Notice, getLinkpath } from 'obsidian';
 import OpenNotebookPlugin from '../main';
-import { OpenNotebookClient } from '../api/client';
+import { OpenNotebookClient, APIError } from '../api/client';
+import { APIInsight, APINote, APISource, APITransformation } from '../api/types';
 import { logger } from '../utils/Logger';
 import { NoticeHelper } from '../utils/NoticeHelper';
 import { MetadataManager } from '../services/MetadataManager';
+import { SnapshotStore } from '../services/SnapshotStore';
+import { SidecarStore } from '../services/SidecarStore';
+import { ExclusionRule, ExclusionRules } from '../services/ExclusionRules';
+import { ContentPreprocessor } from '../services/ContentPreprocessor';
+import { JobRunner } from '../services/JobRunner';
+import { SourceDetailsResolver } from '../services/SourceDetailsResolver';
 import { ConflictModal } from '../modals/ConflictModal';
-import { ConflictInfo } from '../types/sync';
+import { ConflictInfo, FolderSyncStatus, SyncJournalAction, SyncJournalEntry, SyncJobUpdate, SyncOperation, SyncPlanItem, SyncPlanResult } from '../types/sync';
+import { NoteFrontmatter } from '../types/note';
+import { SourceDetails } from '../types/source';
+import { NotebookMappingStrategy, SyncMode, SyncTarget, ConflictResolution, MetadataStorage, ReplacedSourceInsights } from '../types/settings';
+import { AttachmentHelper } from '../utils/AttachmentHelper';
+import { SourceMarker } from '../utils/SourceMarker';
+import { FrontmatterEditor } from '../utils/FrontmatterEditor';
 
 interface SyncMapping {
   filePath: string;
   sourceId: string;
   lastSynced: number;
   hash: string;
+  notebookId?: string;
+  notebookIds?: string[]; // Every notebook a shared attachment source belongs to, when more than one
+  isAttachment?: boolean;
+  insightNoteIds?: string[]; // Notes holding copies of insights from replaced sources, replaced by the next copy
 }
 
+// How a detected conflict was handled: local pushed, remote kept, or left for the user
+type ConflictOutcome = 'local' | 'remote' | 'queued';
+
+// A notebook's sources, listed once per verification
+interface SourceIndex {
+  byId: Map<string, APISource>;
+  byTitle: Map<string, APISource[]>;
+}
+
+// Verification reports progress after this many files
+const VERIFY_PROGRESS_STEP = 25;
+
 export class ContentSyncManager {
   private plugin: OpenNotebookPlugin;
   private client: OpenNotebookClient;
   private syncMappings: Map<string, SyncMapping>;
   private metadataManager: MetadataManager;
+  private snapshotStore: SnapshotStore;
+  private exclusionRules: ExclusionRules;
+  private preprocessor: ContentPreprocessor;
+  private sourceDetails: SourceDetailsResolver;
   private isInitializing: boolean = true;
+  private pulledAt: Map<string, number> = new Map();
+  // Markers of source creates not yet confirmed, reused so a retry can find an earlier attempt
+  // Persisted before each create, so orphans of a create interrupted by a restart are still found
+  private createMarkers: Map<string, string> = new Map();
 
   constructor(plugin: OpenNotebookPlugin) {
     this.plugin = plugin;
     this.client = plugin.getAPIClient();
     this.syncMappings = new Map();
-    this.metadataManager = new MetadataManager(plugin.app);
+
+    // Last-synced content (and sidecar metadata) lives next to the plugin, outside the vault's notes
+    const pluginDir = plugin.manifest.dir || `${plugin.app.vault.configDir}/plugins/${plugin.manifest.id}`;
+    this.metadataManager = new MetadataManager(
+      plugin.app,
+      plugin.settings,
+      new SidecarStore(plugin.app, `${pluginDir}/sync-metadata.json`)
+    );
+    this.snapshotStore = new SnapshotStore(plugin.app, `${pluginDir}/snapshots`);
+    this.exclusionRules = new ExclusionRules(plugin.app, plugin.settings);
+    this.preprocessor = new ContentPreprocessor(plugin.app, plugin.settings, file => this.isExcluded(file));
+    this.sourceDetails = new SourceDetailsResolver(plugin.app, plugin.settings);
 
     // Load sync mappings from plugin settings
     this.loadMappings();
@@ -40,6 +88,10 @@ export class ContentSyncManager {
     Object.entries(mappings).forEach(([path, mapping]) => {
       this.syncMappings.set(path, mapping as SyncMapping);
     });
+
+    Object.entries(this.plugin.settings.pendingCreateMarkers || {}).forEach(([path, marker]) => {
+      this.createMarkers.set(path, marker);
+    });
   }
 
   /**
@@ -55,10 +107,77 @@ export class ContentSyncManager {
     await this.plugin.saveSettings();
   }
 
+  /**
+   * Save the markers of unconfirmed source creates to settings
+   */
+  private async saveCreateMarkers(): Promise<void> {
+    const markers: Record<string, string> = {};
+    this.createMarkers.forEach((marker, path) => {
+      markers[path] = marker;
+    });
+
+    this.plugin.settings.pendingCreateMarkers = markers;
+    await this.plugin.saveSettings();
+  }
+
+  /**
+   * Forget a file's create marker once its source exists or the file is gone
+   */
+  private async clearCreateMarker(filePath: string): Promise<void> {
+    if (this.createMarkers.delete(filePath)) {
+      await this.saveCreateMarkers();
+    }
+  }
+
   /**
    * Sync a single file to Open Notebook
+   * Notes are synced as text sources, attachments are uploaded as file sources
+   * Pass ignoreConflicts to push local content even if the remote copy changed
+   * If the server is unreachable the sync is queued for replay and null is returned
+   */
+  public async syncFile(
+    file: TFile,
+    notebookId: string,
+    options: { ignoreConflicts?: boolean } = {}
+  ): Promise<string | null> {
+    try {
+      return await this.pushFile(file, notebookId, options);
+    } catch (error) {
+      if (await this.queueIfOffline(error, await this.getSyncOperation(file, notebookId))) {
+        this.recordOutcome(file.path, 'error', 'Open Notebook unreachable - queued to retry', { notebookId });
+        return null;
+      }
+      this.recordOutcome(file.path, 'error', error instanceof Error ? error.message : 'Unknown error', { notebookId });
+      throw error;
+    }
+  }
+
+  /**
+   * Push a file to Open Notebook, throwing on any failure
+   */
+  private async pushFile(
+    file: TFile,
+    notebookId: string,
+    options: { ignoreConflicts?: boolean } = {}
+  ): Promise<string | null> {
+    if (this.isAttachment(file)) {
+      return this.syncAttachment(file, notebookId);
+    }
+
+    const sourceId = await this.syncNoteFile(file, notebookId, options.ignoreConflicts ?? false);
+
+    // Upload attachments embedded in the note alongside it
+    if (sourceId && this.plugin.settings.syncAttachments) {
+      await this.syncEmbeddedAttachments(file, notebookId);
+    }
+
+    return sourceId;
+  }
+
+  /**
+   * Sync a markdown note as a text source
    */
-  public async syncFile(file: TFile, notebookId: string): Promise<string | null> {
+  private async syncNoteFile(file: TFile, notebookId: string, ignoreConflicts: boolean): Promise<string | null> {
     try {
       logger.info(`Syncing file: ${file.path} to notebook: ${notebookId}`);
 
@@ -69,28 +188,83 @@ export class ContentSyncManager {
       // Skip empty files - Open Notebook API requires content
       if (!bodyContent || bodyContent.trim().length === 0) {
         logger.debug(`File ${file.path} is empty, skipping sync`);
+        this.recordOutcome(file.path, 'skip', 'Empty note', { notebookId });
         return null;
       }
 
-      // Get current checksum and metadata
-      const currentChecksum = await this.metadataManager.computeChecksum(file);
       const metadata = await this.metadataManager.getMetadata(file);
 
+      // Imported copies only pull - a push would replace the original source (maybe a PDF or URL) with a text copy
+      if (this.isImportedCopy(metadata)) {
+        logger.debug(`${file.path} was imported from Open Notebook, not pushing it`);
+        this.recordOutcome(file.path, 'skip', 'Imported from Open Notebook - local edits stay local', { resourceType: 'source', resourceId: metadata.on_source_id, notebookId });
+        return metadata.on_source_id || null;
+      }
+
+      // Files linked to a note keep updating it in place; notes mode links every file that way
+      if (metadata.on_note_id || this.plugin.settings.syncTarget === SyncTarget.NOTES) {
+        const { checksum } = await this.getUploadContent(file, 'note');
+        return await this.syncAsNote(file, notebookId, bodyContent, checksum, metadata, ignoreConflicts);
+      }
+
+      // Checksum what is uploaded, so changes to embedded notes also trigger a resync
+      const { content: uploadContent, checksum: currentChecksum } = await this.getUploadContent(file, 'source');
+      if (!uploadContent) {
+        logger.debug(`File ${file.path} is empty after preprocessing, skipping sync`);
+        this.recordOutcome(file.path, 'skip', 'Empty after content processing', { notebookId });
+        return null;
+      }
+
       // Check if file is already synced (from frontmatter or legacy mapping)
       const existing = this.syncMappings.get(file.path);
       const sourceId = metadata.on_source_id || existing?.sourceId;
+      const notebookIds = await this.getMemberships(file, notebookId);
+      const details = this.getSourceDetails(file, metadata);
 
       if (sourceId) {
         // Check if sync is disabled in frontmatter
         if (metadata.on_sync_enabled === false) {
           logger.debug(`Sync disabled for ${file.path}, skipping`);
+          this.recordOutcome(file.path, 'skip', 'Sync disabled (on_sync_enabled: false)', { resourceType: 'source', resourceId: sourceId });
           return sourceId;
         }
 
+        // Notebooks changed (tags, property or folders) - link and unlink the one shared source
+        const previousNotebookIds = this.getRecordedMemberships(metadata.on_notebook_id, metadata.on_notebook_ids);
+        const membershipsChanged = previousNotebookIds.length > 0 && !this.sameMemberships(previousNotebookIds, notebookIds);
+        const membershipsUpdated = membershipsChanged && await this.updateMemberships(sourceId, previousNotebookIds, notebookIds);
+
         // Check if content has changed
         const storedChecksum = metadata.on_checksum || existing?.hash;
-        if (storedChecksum === currentChecksum) {
-          logger.debug(`File ${file.path} hasn't changed, skipping sync`);
+        const notebookStale = membershipsChanged && !membershipsUpdated;
+        if (this.metadataManager.checksumMatches(storedChecksum, bodyContent, currentChecksum) && !notebookStale) {
+          await this.upgradeChecksum(file, metadata, currentChecksum);
+
+          // Title and topics can change without the body - update them in place
+          const changes: string[] = [];
+          if (membershipsUpdated) {
+            await this.metadataManager.updateMetadata(file, this.getMembershipMetadata(notebookIds));
+            changes.push(this.describeMembershipChange(previousNotebookIds, notebookIds));
+          }
+          if (details.titleChanged || details.topicsChanged) {
+            await this.updateSourceDetails(file, sourceId, details);
+            changes.push(this.describeDetailsChange(details));
+          }
+
+          if (changes.length > 0) {
+            this.plugin.getSyncIndicatorManager()?.refreshAll();
+            const message = changes.join('; ');
+            logger.info(`${message} - source ${sourceId} for ${file.path}`);
+            this.recordOutcome(file.path, 'update', message, { resourceType: 'source', resourceId: sourceId, notebookId });
+          } else {
+            logger.debug(`File ${file.path} hasn't changed, skipping sync`);
+          }
+          await this.ensureSnapshot(file, bodyContent);
+          return sourceId;
+        }
+
+        // Content changed locally - apply the conflict policy if the remote copy changed too
+        if (!ignoreConflicts && await this.handleRemoteConflict(file, sourceId, 'source')) {
           return sourceId;
         }
 
@@ -98,43 +272,35 @@ export class ContentSyncManager {
         // We need to delete and recreate the source
         logger.info(`Content changed for ${file.path}, recreating source (API limitation)`);
 
-        // Delete old source - must succeed before creating new one
-        try {
-          await this.client.deleteSource(sourceId);
-          logger.info(`Deleted old source ${sourceId}`);
-        } catch (error) {
-          // If delete fails, check if the source even exists
-          logger.error(`Failed to delete old source ${sourceId}`, error);
+        // Insights belong to the old source - collect them before it goes
+        const insights = await this.getInsightsToCarry(sourceId);
 
-          // Try to verify if it actually exists
-          try {
-            await this.client.getSource(sourceId);
-            // Source still exists but couldn't delete - this is a real error
-            logger.error(`Source ${sourceId} exists but couldn't be deleted - aborting to avoid duplicates`);
-            throw new Error(`Cannot delete existing source ${sourceId}`);
-          } catch (getError) {
-            // Source doesn't exist (404) - it's already gone, safe to continue
-            logger.info(`Old source ${sourceId} doesn't exist, safe to create new one`);
-          }
-        }
+        // Delete old source - must succeed before creating new one
+        await this.deleteSourceForReplacement(sourceId);
 
         // Create new source with updated content
+        const { marker, isRetry } = await this.getCreateMarker(file.path);
         const source = await this.client.createSource({
           type: 'text',
-          title: file.basename,
-          content: bodyContent,
-          notebooks: [notebookId],
-          embed: true  // Trigger embedding for search
+          title: details.title,
+          content: uploadContent,
+          notebooks: notebookIds,
+          topics: details.topics,
+          embed: true,  // Trigger embedding for search
+          marker,
+          isRetry
         });
+        await this.clearCreateMarker(file.path);
 
         // Update frontmatter metadata
         await this.metadataManager.updateMetadata(file, {
-          on_notebook_id: notebookId,
+          ...this.getMembershipMetadata(notebookIds),
           on_source_id: source.id,
           on_synced_at: new Date().toISOString(),
           on_modified_at: new Date(file.stat.mtime).toISOString(),
           on_checksum: currentChecksum,
-          on_sync_enabled: true
+          on_sync_enabled: true,
+          ...this.getCreatedDetailsMetadata(details, source)
         });
 
         // Update legacy mapping (for backwards compatibility)
@@ -155,27 +321,42 @@ export class ContentSyncManager {
         // Refresh indicators
         this.plugin.getSyncIndicatorManager()?.refreshAll();
 
+        await this.snapshotStore.save(file.path, bodyContent);
+
+        const insightsOutcome = await this.carryOverInsights(file, insights, source.id, notebookId);
+
         logger.info(`Recreated source ${source.id} for file ${file.path}`);
+        this.recordOutcome(file.path, 'recreate', ['Content changed - source replaced', insightsOutcome].filter(Boolean).join('; '), {
+          resourceType: 'source',
+          resourceId: source.id,
+          notebookId
+        });
         return source.id;
       } else {
         // Create new source
         logger.info(`Creating new source for file ${file.path}`);
+        const { marker, isRetry } = await this.getCreateMarker(file.path);
         const source = await this.client.createSource({
           type: 'text',
-          title: file.basename,
-          content: bodyContent,
-          notebooks: [notebookId],
-          embed: true  // Trigger embedding for search
+          title: details.title,
+          content: uploadContent,
+          notebooks: notebookIds,
+          topics: details.topics,
+          embed: true,  // Trigger embedding for search
+          marker,
+          isRetry
         });
+        await this.clearCreateMarker(file.path);
 
         // Write frontmatter metadata
         await this.metadataManager.updateMetadata(file, {
-          on_notebook_id: notebookId,
+          ...this.getMembershipMetadata(notebookIds),
           on_source_id: source.id,
           on_synced_at: new Date().toISOString(),
           on_modified_at: new Date(file.stat.mtime).toISOString(),
           on_checksum: currentChecksum,
-          on_sync_enabled: true
+          on_sync_enabled: true,
+          ...this.getCreatedDetailsMetadata(details, source)
         });
 
         // Save legacy mapping (for backwards compatibility)
@@ -190,7 +371,10 @@ export class ContentSyncManager {
         // Refresh indicators
         this.plugin.getSyncIndicatorManager()?.refreshAll();
 
+        await this.snapshotStore.save(file.path, bodyContent);
+
         logger.info(`Created source ${source.id} for file ${file.path}`);
+        this.recordOutcome(file.path, 'create', 'Created source', { resourceType: 'source', resourceId: source.id, notebookId });
         return source.id;
       }
     } catch (error) {
@@ -200,272 +384,2157 @@ export class ContentSyncManager {
   }
 
   /**
-   * Sync all files in a folder to a notebook
+   * Sync a markdown file as an Open Notebook note
+   * Notes support content updates, so they are updated in place instead of recreated
    */
-  public async syncFolder(folder: TFolder, notebookId: string): Promise<{
-    synced: number;
-    failed: number;
+  private async syncAsNote(
+    file: TFile,
+    notebookId: string,
+    bodyContent: string,
+    currentChecksum: string,
+    metadata: NoteFrontmatter,
+    ignoreConflicts: boolean
+  ): Promise<string | null> {
+    if (metadata.on_sync_enabled === false) {
+      logger.debug(`Sync disabled for ${file.path}, skipping`);
+      this.recordOutcome(file.path, 'skip', 'Sync disabled (on_sync_enabled: false)', { resourceType: 'note', resourceId: metadata.on_note_id });
+      return metadata.on_note_id || null;
+    }
+
+    let noteId = metadata.on_note_id;
+    const notebookChanged = !!noteId && !!metadata.on_notebook_id && metadata.on_notebook_id !== notebookId;
+
+    if (noteId && !notebookChanged && this.metadataManager.checksumMatches(metadata.on_checksum, bodyContent, currentChecksum)) {
+      await this.upgradeChecksum(file, metadata, currentChecksum);
+      logger.debug(`File ${file.path} hasn't changed, skipping sync`);
+      await this.ensureSnapshot(file, bodyContent);
+      return noteId;
+    }
+
+    if (noteId && notebookChanged) {
+      // Notes belong to a single notebook - recreate it in the new one
+      try {
+        await this.client.deleteNote(noteId);
+      } catch (error) {
+        logger.warn(`Could not delete note ${noteId} from previous notebook`, error);
+      }
+      noteId = undefined;
+    }
+
+    if (noteId && !ignoreConflicts && await this.handleRemoteConflict(file, noteId, 'note')) {
+      return noteId;
+    }
+
+    let outcome: { action: SyncJournalAction; message: string } = notebookChanged
+      ? { action: 'recreate', message: 'Moved to another notebook - note recreated' }
+      : { action: 'create', message: 'Created note' };
+
+    if (noteId) {
+      try {
+        await this.client.updateNote(noteId, {
+          title: file.basename,
+          content: bodyContent
+        });
+        logger.info(`Updated note ${noteId} for file ${file.path}`);
+        outcome = { action: 'update', message: 'Updated note' };
+      } catch (error) {
+        // Note was deleted in Open Notebook - create a new one below
+        if (error instanceof APIError && error.statusCode === 404) {
+          logger.info(`Note ${noteId} no longer exists, creating a new one`);
+          outcome = { action: 'recreate', message: 'Note was deleted in Open Notebook - created a new one' };
+          noteId = undefined;
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    if (!noteId) {
+      const note = await this.client.createNote({
+        title: file.basename,
+        content: bodyContent,
+        note_type: 'human',
+        notebook_id: notebookId
+      });
+      noteId = note.id;
+      logger.info(`Created note ${noteId} for file ${file.path}`);
+    }
+
+    // Switching from source to note sync - drop the old source so it isn't indexed twice
+    const previousSourceId = metadata.on_source_id || this.syncMappings.get(file.path)?.sourceId;
+    if (previousSourceId) {
+      try {
+        await this.client.deleteSource(previousSourceId);
+      } catch (error) {
+        logger.warn(`Could not delete previous source ${previousSourceId} for ${file.path}`, error);
+      }
+      this.syncMappings.delete(file.path);
+      await this.saveMappings();
+    }
+
+    await this.metadataManager.updateMetadata(file, {
+      on_notebook_id: notebookId,
+      on_notebook_ids: undefined,
+      on_note_id: noteId,
+      on_source_id: undefined,
+      on_title: undefined,
+      on_synced_at: new Date().toISOString(),
+      on_modified_at: new Date(file.stat.mtime).toISOString(),
+      on_checksum: currentChecksum,
+      on_sync_enabled: true
+    });
+    await this.snapshotStore.save(file.path, bodyContent);
+
+    // Refresh indicators
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+
+    this.recordOutcome(file.path, outcome.action, outcome.message, { resourceType: 'note', resourceId: noteId, notebookId });
+    return noteId;
+  }
+
+  /**
+   * Pull notes from a notebook into its linked folder
+   * New notes become markdown files; remote edits overwrite files that have no local changes
+   */
+  public async pullNotes(folder: TFolder, notebookId: string): Promise<{
+    created: number;
+    updated: number;
     skipped: number;
+    conflicts: number;
   }> {
-    logger.info(`Syncing folder: ${folder.path} to notebook: ${notebookId}`);
+    logger.info(`Pulling notes from notebook ${notebookId} into ${folder.path}`);
 
     const results = {
-      synced: 0,
-      failed: 0,
-      skipped: 0
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      conflicts: 0
     };
 
-    // Get all markdown files in the folder (recursively)
-    const files = this.getMarkdownFilesInFolder(folder);
+    const notes = await this.client.getNotes(notebookId);
+    const filesByNoteId = await this.getFilesByResourceId('on_note_id');
 
-    logger.info(`Found ${files.length} markdown files to sync`);
+    // Insight copies belong to the file whose source was replaced, not to the folder
+    const insightCopies = new Set<string>();
+    this.syncMappings.forEach(mapping => (mapping.insightNoteIds || []).forEach(id => insightCopies.add(id)));
+
+    for (const note of notes) {
+      if (insightCopies.has(note.id)) {
+        results.skipped++;
+        continue;
+      }
 
-    for (const file of files) {
       try {
-        await this.syncFile(file, notebookId);
-        results.synced++;
+        const file = filesByNoteId.get(note.id);
+        if (!file) {
+          const created = await this.createFileFromNote(folder, note, notebookId);
+          this.recordOutcome(created.path, 'pull', 'Created from a new note in Open Notebook', { resourceType: 'note', resourceId: note.id, notebookId });
+          results.created++;
+          continue;
+        }
+
+        const metadata = await this.metadataManager.getMetadata(file);
+
+        // Not edited in Open Notebook since it was last pulled
+        if (metadata.on_modified_at && metadata.on_modified_at === this.toISOString(note.updated)) {
+          results.skipped++;
+          continue;
+        }
+
+        const remoteChecksum = await this.metadataManager.computeChecksumFromContent(note.content || '');
+
+        // Unchanged since last sync (or the change was our own push)
+        if (this.metadataManager.checksumMatches(metadata.on_checksum, note.content || '', remoteChecksum)) {
+          await this.upgradeChecksum(file, metadata, remoteChecksum);
+          results.skipped++;
+          continue;
+        }
+
+        // Both sides changed - let the conflict policy decide
+        if (await this.metadataManager.hasContentChanged(file)) {
+          const conflict = await this.checkForConflict(file, note.id, 'note');
+          const outcome = conflict ? await this.applyConflictPolicy(conflict) : 'local';
+
+          if (outcome === 'local') {
+            await this.syncFile(file, notebookId, { ignoreConflicts: true });
+            results.skipped++;
+          } else if (outcome === 'remote') {
+            results.updated++;
+          } else {
+            results.conflicts++;
+          }
+          continue;
+        }
+
+        this.pulledAt.set(file.path, Date.now());
+        await this.metadataManager.replaceBodyContent(file, note.content || '', {
+          on_notebook_id: notebookId,
+          on_synced_at: new Date().toISOString(),
+          on_modified_at: this.toISOString(note.updated),
+          on_checksum: remoteChecksum
+        });
+        await this.snapshotStore.save(file.path, (note.content || '').trim());
+        results.updated++;
+        logger.info(`Pulled remote changes for note ${note.id} into ${file.path}`);
+        this.recordOutcome(file.path, 'pull', 'Pulled changes made in Open Notebook', { resourceType: 'note', resourceId: note.id, notebookId });
       } catch (error) {
-        logger.error(`Failed to sync file ${file.path}`, error);
-        results.failed++;
+        logger.error(`Failed to pull note ${note.id}`, error);
+        this.recordOutcome(filesByNoteId.get(note.id)?.path || note.title || note.id, 'error',
+          `Pull failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { resourceType: 'note', resourceId: note.id, notebookId });
+        results.skipped++;
       }
     }
 
-    logger.info(`Folder sync complete: ${results.synced} synced, ${results.failed} failed, ${results.skipped} skipped`);
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+
+    logger.info(`Pull complete: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped, ${results.conflicts} conflicts`);
     return results;
   }
 
   /**
-   * Check if a file is in an excluded folder
+   * Create a markdown file for a remote note, with its note link already stored
    */
-  private isFileInExcludedFolder(file: TFile): boolean {
-    const excludedFolders = this.plugin.settings.excludedFolders || [];
-    const filePath = file.path;
-
-    return excludedFolders.some(excluded => {
-      // Check if file path starts with excluded folder path
-      return filePath === excluded ||
-             filePath.startsWith(excluded + '/');
+  private async createFileFromNote(folder: TFolder, note: APINote, notebookId: string): Promise<TFile> {
+    const body = note.content || '';
+    const path = this.getAvailablePath(folder, note.title || `Note ${note.id.replace(/^note:/, '')}`);
+    this.pulledAt.set(path, Date.now());
+
+    const file = await this.metadataManager.createFileWithMetadata(path, body, {
+      on_notebook_id: notebookId,
+      on_note_id: note.id,
+      on_synced_at: new Date().toISOString(),
+      on_modified_at: this.toISOString(note.updated),
+      on_checksum: await this.metadataManager.computeChecksumFromContent(body),
+      on_sync_enabled: true,
+      on_ai_generated: note.note_type === 'ai' ? true : undefined
     });
+    await this.snapshotStore.save(path, body.trim());
+
+    logger.info(`Created ${path} from note ${note.id}`);
+    return file;
   }
 
   /**
-   * Get all markdown files in a folder recursively
+   * Import a notebook into a folder: every source's text and every note become markdown files
+   * Importing again refreshes only sources whose update time changed, and never overwrites local edits
    */
-  private getMarkdownFilesInFolder(folder: TFolder): TFile[] {
-    const files: TFile[] = [];
-    const excludedFolders = this.plugin.settings.excludedFolders || [];
+  public async importNotebook(folder: TFolder, notebookId: string): Promise<{
+    created: number;
+    updated: number;
+    skipped: number;
+    failed: number;
+  }> {
+    logger.info(`Importing notebook ${notebookId} into ${folder.path}`);
 
-    const processFolder = (f: TFolder) => {
-      // Check if this folder should be excluded
-      const folderName = f.name;
-      const folderPath = f.path;
+    const results = {
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0
+    };
 
-      // Check both folder name and full path against excluded folders
-      const isExcluded = excludedFolders.some(excluded => {
-        return folderPath === excluded ||
-               folderPath.startsWith(excluded + '/') ||
-               folderName === excluded;
-      });
+    const sources = await this.client.getSources(notebookId);
+    const filesBySourceId = await this.getFilesByResourceId('on_source_id');
 
-      if (isExcluded) {
-        logger.debug(`Skipping excluded folder: ${folderPath}`);
-        return;
+    for (const source of sources) {
+      const file = filesBySourceId.get(source.id);
+      try {
+        results[await this.importSource(folder, source, notebookId, file)]++;
+      } catch (error) {
+        logger.error(`Failed to import source ${source.id}`, error);
+        this.recordOutcome(file?.path || source.title || source.id, 'error',
+          `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`, { resourceType: 'source', resourceId: source.id, notebookId });
+        results.failed++;
       }
+    }
 
-      for (const child of f.children) {
-        if (child instanceof TFile && child.extension === 'md') {
-          files.push(child);
-        } else if (child instanceof TFolder) {
-          processFolder(child);
-        }
+    // Notes follow the regular pull, which already keeps local edits
+    const notes = await this.pullNotes(folder, notebookId);
+    results.created += notes.created;
+    results.updated += notes.updated;
+    results.skipped += notes.skipped + notes.conflicts;
+
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+
+    logger.info(`Import complete: ${results.created} created, ${results.updated} updated, ${results.skipped} skipped, ${results.failed} failed`);
+    return results;
+  }
+
+  /**
+   * Write one source's text into the folder, or refresh the file imported from it earlier
+   */
+  private async importSource(
+    folder: TFolder,
+    source: APISource,
+    notebookId: string,
+    file: TFile | undefined
+  ): Promise<'created' | 'updated' | 'skipped'> {
+    const remoteUpdated = this.toISOString(source.updated);
+
+    if (file) {
+      const metadata = await this.metadataManager.getMetadata(file);
+
+      // Synced from this vault - the file is the original, not a copy
+      if (!metadata.on_remote_updated) {
+        return 'skipped';
+      }
+
+      if (metadata.on_remote_updated === remoteUpdated) {
+        return 'skipped';
+      }
+
+      const { body, checksum } = await this.getUploadContent(file, 'source');
+      if (!this.metadataManager.checksumMatches(metadata.on_checksum, body, checksum)) {
+        this.recordOutcome(file.path, 'skip', 'Changed locally - import kept the local copy', { resourceType: 'source', resourceId: source.id, notebookId });
+        return 'skipped';
       }
+    }
+
+    // Source lists may leave out the text
+    const full = source.full_text ? source : await this.client.getSource(source.id);
+    const body = (full.full_text || '').trim();
+    if (!body) {
+      logger.debug(`Source ${source.id} has no text yet, skipping import`);
+      return 'skipped';
+    }
+
+    const topics = full.topics && full.topics.length > 0 ? full.topics : undefined;
+    const title = full.title || `Source ${source.id.replace(/^source:/, '')}`;
+    const metadata: Partial<NoteFrontmatter> = {
+      on_notebook_id: notebookId,
+      on_source_id: source.id,
+      on_synced_at: new Date().toISOString(),
+      on_modified_at: remoteUpdated,
+      on_remote_updated: remoteUpdated,
+      on_sync_enabled: true,
+      on_title: title,
+      on_topics: topics
     };
 
-    processFolder(folder);
-    return files;
+    let target: TFile;
+    if (!file) {
+      const path = this.getAvailablePath(folder, title);
+      this.pulledAt.set(path, Date.now());
+
+      const properties: Record<string, any> = {};
+      const tags = this.getTopicTags([], undefined, topics);
+      if (tags.length > 0) {
+        properties.tags = tags;
+      }
+      // The file name can't hold every title - keep the exact one so pushes don't rename the source
+      const fileName = path.split('/').pop()!.replace(/\.md$/, '');
+      if (fileName !== title && this.plugin.settings.sourceTitleProperty) {
+        properties[this.plugin.settings.sourceTitleProperty] = title;
+      }
+
+      target = await this.metadataManager.createFileWithMetadata(
+        path,
+        Object.keys(properties).length > 0 ? FrontmatterEditor.setKeys(body, properties) : body,
+        metadata
+      );
+    } else {
+      target = file;
+      this.pulledAt.set(file.path, Date.now());
+
+      const previousTopics = (await this.metadataManager.getMetadata(file)).on_topics;
+      await this.metadataManager.replaceBodyContent(file, body, metadata);
+
+      const existingTags = this.plugin.app.metadataCache.getFileCache(file)?.frontmatter?.tags;
+      const tags = this.getTopicTags(existingTags, previousTopics, topics);
+      await this.metadataManager.setFrontmatterProperties(file, { tags: tags.length > 0 ? tags : undefined });
+    }
+
+    // Store the checksum of what a push would upload, so the import doesn't count as a local change
+    const { checksum } = await this.getUploadContent(target, 'source');
+    await this.metadataManager.updateMetadata(target, { on_checksum: checksum });
+    await this.snapshotStore.save(target.path, body);
+
+    logger.info(`${file ? 'Refreshed' : 'Created'} ${target.path} from source ${source.id}`);
+    this.recordOutcome(target.path, 'pull', file ? 'Refreshed from Open Notebook' : 'Imported from Open Notebook', { resourceType: 'source', resourceId: source.id, notebookId });
+    return file ? 'updated' : 'created';
   }
 
   /**
-   * Handle file creation
+   * Merge a source's topics into a note's tags, dropping tags of topics the source no longer has
    */
-  public async onFileCreated(file: TFile): Promise<void> {
-    // Don't auto-sync during initialization - let verifySyncState handle it
-    if (this.isInitializing) {
-      logger.debug(`Skipping auto-sync for ${file.path} during initialization`);
-      return;
+  private getTopicTags(existing: unknown, previousTopics: string[] | undefined, topics: string[] | undefined): string[] {
+    const current = Array.isArray(existing)
+      ? existing.map(String)
+      : typeof existing === 'string' ? existing.split(/[,\s]+/) : [];
+    const stale = (previousTopics || []).map(topic => this.sourceDetails.topicToTag(topic));
+
+    const tags = current.map(tag => tag.replace(/^#/, '')).filter(tag => tag && !stale.includes(tag));
+    for (const tag of (topics || []).map(topic => this.sourceDetails.topicToTag(topic))) {
+      if (tag && !tags.includes(tag)) {
+        tags.push(tag);
+      }
     }
+    return tags;
+  }
 
-    // Skip files in excluded folders
-    if (this.isFileInExcludedFolder(file)) {
-      logger.debug(`Skipping file in excluded folder: ${file.path}`);
-      return;
+  /**
+   * Index markdown files by the note or source they are linked to
+   */
+  private async getFilesByResourceId(key: 'on_note_id' | 'on_source_id'): Promise<Map<string, TFile>> {
+    const index = new Map<string, TFile>();
+    for (const file of this.plugin.app.vault.getMarkdownFiles()) {
+      const resourceId = (await this.metadataManager.getMetadata(file))[key];
+      if (resourceId) {
+        index.set(resourceId, file);
+      }
     }
+    return index;
+  }
 
-    // Only auto-sync if file is in a linked folder
-    const folder = file.parent;
-    if (!folder) {
-      return;
+  /**
+   * Find a free file path in a folder for a note title
+   */
+  private getAvailablePath(folder: TFolder, title: string): string {
+    const baseName = title.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Untitled note';
+    const prefix = folder.isRoot() ? '' : `${folder.path}/`;
+
+    let path = `${prefix}${baseName}.md`;
+    let counter = 1;
+    while (this.plugin.app.vault.getAbstractFileByPath(path)) {
+      path = `${prefix}${baseName} ${counter}.md`;
+      counter++;
     }
+    return path;
+  }
 
-    const notebookId = this.plugin.getNotebookManager().getNotebookForFolder(folder.path);
-    if (!notebookId) {
-      logger.debug(`No notebook mapped for folder ${folder.path}, skipping auto-sync`);
-      return;
+  /**
+   * Check if a file is a copy written by Import Notebook - those only pull, so local changes never reach the source
+   */
+  private isImportedCopy(metadata: NoteFrontmatter): boolean {
+    return !!metadata.on_remote_updated && !!metadata.on_source_id;
+  }
+
+  /**
+   * Check if a vault event was caused by a pull writing the file
+   */
+  private isPullEcho(file: TFile): boolean {
+    const pulledAt = this.pulledAt.get(file.path);
+    if (pulledAt === undefined) {
+      return false;
     }
 
-    // Check if auto-sync is enabled
-    if (!this.plugin.settings.autoSyncOnSave) {
-      return;
+    // Create, modify and metadata events all arrive within a few seconds of the write
+    if (Date.now() - pulledAt < 5000) {
+      return true;
     }
 
+    this.pulledAt.delete(file.path);
+    return false;
+  }
+
+  /**
+   * Convert an API timestamp to ISO format, falling back to now
+   */
+  private toISOString(timestamp: string | undefined): string {
+    const date = timestamp ? new Date(timestamp) : new Date();
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+  }
+
+  /**
+   * Upload an attachment as a file-backed source
+   * Attachments have no frontmatter, so state lives only in the sync mappings
+   */
+  private async syncAttachment(file: TFile, notebookId: string): Promise<string | null> {
     try {
-      // Small delay to ensure file is fully created
-      await this.sleep(500);
-      await this.syncFile(file, notebookId);
-      logger.info(`Auto-synced new file ${file.path}`);
-      NoticeHelper.success(`Synced new file: ${file.basename}`);
+      if (!AttachmentHelper.isWithinSizeLimit(file)) {
+        logger.warn(`Attachment ${file.path} is too large to upload, skipping`);
+        this.recordOutcome(file.path, 'skip', 'Too large to upload', { notebookId });
+        return null;
+      }
+
+      const existing = this.syncMappings.get(file.path);
+      const notebookIds = await this.getMemberships(file, notebookId);
+      const previousNotebookIds = existing ? this.getRecordedMemberships(existing.notebookId, existing.notebookIds) : [];
+      const membershipsChanged = previousNotebookIds.length > 0 && !this.sameMemberships(previousNotebookIds, notebookIds);
+
+      // Untouched since last sync - skip reading and hashing the whole file
+      if (existing && existing.notebookId === notebookId && !membershipsChanged && file.stat.mtime <= existing.lastSynced) {
+        logger.debug(`Attachment ${file.path} hasn't changed, skipping sync`);
+        return existing.sourceId;
+      }
+
+      const data = await this.plugin.app.vault.readBinary(file);
+      const currentChecksum = await this.metadataManager.computeChecksumFromBinary(data);
+
+      if (existing && this.metadataManager.binaryChecksumMatches(existing.hash, data, currentChecksum)) {
+        // Same bytes - at most the notebooks changed
+        existing.hash = currentChecksum;
+        if (membershipsChanged) {
+          if (await this.updateMemberships(existing.sourceId, previousNotebookIds, notebookIds)) {
+            Object.assign(existing, this.getMembershipMapping(notebookIds));
+            existing.lastSynced = Date.now();
+            await this.saveMappings();
+            this.plugin.getSyncIndicatorManager()?.refreshAll();
+            const message = this.describeMembershipChange(previousNotebookIds, notebookIds);
+            logger.info(`${message} - source ${existing.sourceId} for ${file.path}`);
+            this.recordOutcome(file.path, 'update', message, { resourceType: 'source', resourceId: existing.sourceId, notebookId });
+            return existing.sourceId;
+          }
+        } else {
+          Object.assign(existing, this.getMembershipMapping(notebookIds));
+          existing.lastSynced = Date.now();
+          await this.saveMappings();
+          logger.debug(`Attachment ${file.path} hasn't changed, skipping sync`);
+          return existing.sourceId;
+        }
+      }
+
+      let insights: APIInsight[] = [];
+      if (existing) {
+        // File sources can't be updated in place either - replace the upload
+        logger.info(`Attachment ${file.path} changed, replacing source ${existing.sourceId}`);
+        insights = await this.getInsightsToCarry(existing.sourceId);
+        await this.deleteSourceForReplacement(existing.sourceId);
+      } else {
+        logger.info(`Uploading attachment ${file.path}`);
+      }
+
+      const { marker, isRetry } = await this.getCreateMarker(file.path);
+      const source = await this.client.uploadSource({
+        fileName: file.name,
+        fileData: data,
+        mimeType: AttachmentHelper.getMimeType(file),
+        title: file.name,
+        notebooks: notebookIds,
+        embed: true,  // Trigger embedding for search
+        deleteSource: this.plugin.settings.autoDeleteFiles,
+        marker,
+        isRetry
+      });
+      await this.clearCreateMarker(file.path);
+
+      this.syncMappings.set(file.path, {
+        filePath: file.path,
+        sourceId: source.id,
+        lastSynced: Date.now(),
+        hash: currentChecksum,
+        ...this.getMembershipMapping(notebookIds),
+        isAttachment: true,
+        insightNoteIds: existing?.insightNoteIds
+      });
+      await this.saveMappings();
+
+      // Refresh indicators
+      this.plugin.getSyncIndicatorManager()?.refreshAll();
+
+      const insightsOutcome = await this.carryOverInsights(file, insights, source.id, notebookId);
+
+      logger.info(`Uploaded source ${source.id} for attachment ${file.path}`);
+      const message = existing ? ['Attachment changed - upload replaced', insightsOutcome].filter(Boolean).join('; ') : 'Uploaded attachment';
+      this.recordOutcome(file.path, existing ? 'recreate' : 'create', message, {
+        resourceType: 'source',
+        resourceId: source.id,
+        notebookId
+      });
+      return source.id;
     } catch (error) {
-      logger.error(`Failed to auto-sync new file ${file.path}`, error);
+      logger.error(`Failed to sync attachment ${file.path}`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Sync attachments embedded in a note with ![[...]]
+   * An attachment outside linked folders stays in the notebook it was first uploaded to
+   */
+  private async syncEmbeddedAttachments(file: TFile, notebookId: string): Promise<void> {
+    const embeds = this.plugin.app.metadataCache.getFileCache(file)?.embeds || [];
+    const seen = new Set<string>();
+
+    for (const embed of embeds) {
+      const target = this.plugin.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+      if (!target || seen.has(target.path) || !this.isAttachment(target)) {
+        continue;
+      }
+      seen.add(target.path);
+
+      if (this.isExcluded(target)) {
+        logger.debug(`Skipping excluded embedded attachment: ${target.path}`);
+        continue;
+      }
+
+      let targetNotebookId = notebookId;
+      try {
+        targetNotebookId = await this.resolveNotebookForFile(target) ||
+          this.syncMappings.get(target.path)?.notebookId ||
+          notebookId;
+        await this.syncAttachment(target, targetNotebookId);
+      } catch (error) {
+        // Don't fail the note because one of its embeds failed
+        if (!(await this.queueIfOffline(error, await this.getSyncOperation(target, targetNotebookId)))) {
+          logger.error(`Failed to sync embedded attachment ${target.path}`, error);
+          this.recordOutcome(target.path, 'error', error instanceof Error ? error.message : 'Unknown error', { notebookId: targetNotebookId });
+        } else {
+          this.recordOutcome(target.path, 'error', 'Open Notebook unreachable - queued to retry', { notebookId: targetNotebookId });
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete a source that is about to be replaced
+   * Throws if the source still exists afterwards, to avoid creating a duplicate
+   */
+  private async deleteSourceForReplacement(sourceId: string): Promise<void> {
+    try {
+      await this.client.deleteSource(sourceId);
+      logger.info(`Deleted old source ${sourceId}`);
+    } catch (error) {
+      // If delete fails, check if the source even exists
+      logger.error(`Failed to delete old source ${sourceId}`, error);
+
+      // Try to verify if it actually exists
+      let stillExists = false;
+      try {
+        await this.client.getSource(sourceId);
+        stillExists = true;
+      } catch (getError) {
+        // Can't tell whether it still exists while the server is unreachable
+        if (getError instanceof APIError && getError.isNetworkError()) {
+          throw getError;
+        }
+
+        // Source doesn't exist (404) - it's already gone, safe to continue
+        logger.info(`Old source ${sourceId} doesn't exist, safe to create new one`);
+      }
+
+      if (stillExists) {
+        // Source still exists but couldn't delete - this is a real error
+        logger.error(`Source ${sourceId} exists but couldn't be deleted - aborting to avoid duplicates`);
+        throw new Error(`Cannot delete existing source ${sourceId}`);
+      }
+    }
+  }
+
+  /**
+   * Fetch the insights of a source about to be replaced
+   * Throws when they can't be read, so the source isn't replaced and its insights aren't lost
+   */
+  private async getInsightsToCarry(sourceId: string): Promise<APIInsight[]> {
+    try {
+      return await this.client.getInsights(sourceId);
+    } catch (error) {
+      // A source that's already gone has nothing to keep
+      if (error instanceof APIError && error.statusCode === 404) {
+        return [];
+      }
+      // Unreachable - the sync is queued and replayed later
+      if (error instanceof APIError && error.isNetworkError()) {
+        throw error;
+      }
+      logger.error(`Could not read insights of source ${sourceId}, not replacing it`, error);
+      throw new Error(`Couldn't read the source's insights, so it wasn't replaced: ${error.message || 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Keep a replaced source's insights as the settings say: copy them to notes or regenerate them on the new source
+   * Insights that can't be regenerated are copied; returns what happened, for the sync journal
+   */
+  private async carryOverInsights(file: TFile, insights: APIInsight[], sourceId: string, notebookId: string): Promise<string> {
+    if (insights.length === 0) {
+      return '';
+    }
+
+    const policy = this.plugin.settings.replacedSourceInsights;
+    if (policy === ReplacedSourceInsights.DISCARD) {
+      logger.info(`Discarded ${insights.length} insights of the replaced source for ${file.path}`);
+      return `${insights.length} insight${insights.length === 1 ? '' : 's'} discarded`;
+    }
+
+    let regenerated = 0;
+    let toCopy = insights;
+
+    if (policy === ReplacedSourceInsights.REGENERATE) {
+      let transformations: APITransformation[] = [];
+      try {
+        transformations = await this.client.getTransformations();
+      } catch (error) {
+        logger.warn('Could not load transformations to regenerate insights', error);
+      }
+
+      // Each transformation runs once, however many insights it made
+      const rerun = new Map<string, boolean>();
+      toCopy = [];
+      for (const insight of insights) {
+        const type = (insight.insight_type || '').toLowerCase();
+        const transformation = transformations.find(t => t.name.toLowerCase() === type);
+        if (transformation && !rerun.has(transformation.id)) {
+          try {
+            await this.client.generateInsight(sourceId, transformation.id);
+            rerun.set(transformation.id, true);
+          } catch (error) {
+            logger.warn(`Could not regenerate "${transformation.name}" insight for ${file.path}`, error);
+            rerun.set(transformation.id, false);
+          }
+        }
+
+        if (transformation && rerun.get(transformation.id)) {
+          regenerated++;
+        } else {
+          toCopy.push(insight);
+        }
+      }
+    }
+
+    const { copied, lost } = await this.copyInsightsToNotes(file, toCopy, notebookId);
+
+    const outcome: string[] = [];
+    if (regenerated > 0) {
+      outcome.push(`${regenerated} insight${regenerated === 1 ? '' : 's'} regenerated`);
+    }
+    if (copied > 0) {
+      outcome.push(`${copied} insight${copied === 1 ? '' : 's'} copied to notes`);
+    }
+    if (lost > 0) {
+      outcome.push(`${lost} insight${lost === 1 ? '' : 's'} lost`);
+    }
+    logger.info(`Carried over insights for ${file.path}: ${outcome.join(', ')}`);
+    return outcome.join(', ');
+  }
+
+  /**
+   * Save insights as AI notes, replacing the copies made the last time this file's source was replaced
+   * The copies are remembered on the file's mapping, so pulls don't write them into the vault
+   */
+  private async copyInsightsToNotes(file: TFile, insights: APIInsight[], notebookId: string): Promise<{ copied: number; lost: number }> {
+    if (insights.length === 0) {
+      return { copied: 0, lost: 0 };
+    }
+
+    const mapping = this.syncMappings.get(file.path);
+    for (const noteId of mapping?.insightNoteIds || []) {
+      try {
+        await this.client.deleteNote(noteId);
+      } catch (error) {
+        if (!(error instanceof APIError && error.statusCode === 404)) {
+          logger.warn(`Could not delete earlier insight copy ${noteId} for ${file.path}`, error);
+        }
+      }
+    }
+
+    const title = this.getSourceTitle(file);
+    const noteIds: string[] = [];
+    for (const insight of insights) {
+      try {
+        const note = await this.client.createNote({
+          title: `${insight.insight_type || insight.title || 'Insight'}: ${title}`,
+          content: insight.content,
+          note_type: 'ai',
+          notebook_id: notebookId
+        });
+        noteIds.push(note.id);
+      } catch (error) {
+        logger.error(`Could not copy insight ${insight.id} of ${file.path} to a note`, error);
+      }
+    }
+
+    if (mapping) {
+      mapping.insightNoteIds = noteIds.length > 0 ? noteIds : undefined;
+      await this.saveMappings();
+    }
+
+    const lost = insights.length - noteIds.length;
+    if (lost > 0) {
+      NoticeHelper.warn(`${lost} insight${lost === 1 ? '' : 's'} of ${title} couldn't be kept when its source was replaced`);
+    }
+    return { copied: noteIds.length, lost };
+  }
+
+  /**
+   * Get the idempotency marker for creating a file's source
+   * A marker left by a failed or interrupted create is reused, flagged as a retry
+   */
+  private async getCreateMarker(filePath: string): Promise<{ marker: string; isRetry: boolean }> {
+    const pending = this.createMarkers.get(filePath);
+    if (pending) {
+      return { marker: pending, isRetry: true };
+    }
+
+    const marker = SourceMarker.generate(SourceMarker.keyForPath(filePath));
+    this.createMarkers.set(filePath, marker);
+    await this.saveCreateMarkers();
+    return { marker, isRetry: false };
+  }
+
+  /**
+   * Check if a file is an attachment that can be uploaded as a file source
+   */
+  private isAttachment(file: TFile): boolean {
+    return file.extension !== 'md' && AttachmentHelper.isSupportedAttachment(file);
+  }
+
+  /**
+   * Check if vault events for a file should reach the sync manager
+   */
+  public isSyncableFile(file: TFile): boolean {
+    return file.extension === 'md' ||
+      (this.plugin.settings.syncAttachments && this.isAttachment(file));
+  }
+
+  /**
+   * Sync all files in a folder to a notebook, several at a time
+   * Pass a runner to cancel the batch, and onUpdate to follow each file
+   */
+  public async syncFolder(
+    folder: TFolder,
+    notebookId: string,
+    runner: JobRunner = new JobRunner(this.plugin.settings.syncConcurrency),
+    onUpdate?: (update: SyncJobUpdate) => void
+  ): Promise<{
+    synced: number;
+    failed: number;
+    skipped: number;
+  }> {
+    logger.info(`Syncing folder: ${folder.path} to notebook: ${notebookId}`);
+
+    // Get all markdown files (and attachments, if enabled) in the folder (recursively)
+    const files = this.getSyncableFilesInFolder(folder);
+
+    logger.info(`Found ${files.length} files to sync`);
+    files.forEach(file => onUpdate?.({ filePath: file.path, status: 'queued' }));
+
+    const batch = await runner.run(files, async (file) => {
+      onUpdate?.({ filePath: file.path, status: 'running' });
+      try {
+        // Tags or properties can route individual files to other notebooks
+        const targetNotebookId = await this.resolveNotebookForFile(file) || notebookId;
+        await this.syncFile(file, targetNotebookId);
+      } catch (error) {
+        logger.error(`Failed to sync file ${file.path}`, error);
+        onUpdate?.({ filePath: file.path, status: 'failed', message: error.message || 'Unknown error' });
+        throw error;
+      }
+
+      const message = this.plugin.getOfflineQueue().hasOperation(file.path) ? 'Queued - Open Notebook is unreachable'
+        : this.plugin.getConflictQueue().has(file.path) ? 'Conflict queued for review'
+        : undefined;
+      onUpdate?.({ filePath: file.path, status: 'done', message });
+    });
+
+    batch.cancelled.forEach(file => onUpdate?.({ filePath: file.path, status: 'cancelled' }));
+
+    const results = {
+      synced: batch.results.size,
+      failed: batch.errors.size,
+      skipped: batch.cancelled.length
+    };
+
+    logger.info(`Folder sync complete: ${results.synced} synced, ${results.failed} failed, ${results.skipped} skipped`);
+    return results;
+  }
+
+  /**
+   * Build a dry-run plan of what a full sync would do, without changing anything
+   * Pass verifyRemote to also check that linked sources and notes still exist
+   */
+  public async buildSyncPlan(options: { verifyRemote?: boolean } = {}): Promise<SyncPlanItem[]> {
+    const plan: SyncPlanItem[] = [];
+    const remoteIds = options.verifyRemote ? new Map<string, Promise<Set<string>>>() : null;
+
+    // Pick up edits to .opennotebookignore files, and files moved while the plugin wasn't running
+    await this.exclusionRules.reload();
+    await this.metadataManager.reconcileSidecar(this.plugin.app.vault.getMarkdownFiles());
+
+    // Which path each source was last synced from, to spot files moved while the plugin wasn't watching
+    const pathsBySourceId = new Map<string, string>();
+    this.syncMappings.forEach((mapping, path) => pathsBySourceId.set(mapping.sourceId, path));
+
+    for (const [file, folderNotebookId] of this.getPlanCandidates()) {
+      try {
+        plan.push(await this.planFile(file, folderNotebookId, pathsBySourceId, remoteIds));
+      } catch (error) {
+        logger.error(`Failed to plan sync for ${file.path}`, error);
+        plan.push({
+          filePath: file.path,
+          action: 'skip',
+          reason: `Could not be checked: ${error.message || 'Unknown error'}`,
+          included: false
+        });
+      }
+    }
+
+    // Synced files that are gone from the vault (and weren't just renamed)
+    const renamedFrom = new Set(plan.map(item => item.previousPath).filter(Boolean));
+    this.syncMappings.forEach((mapping, path) => {
+      if (renamedFrom.has(path)) {
+        return;
+      }
+
+      // Synced files that are now excluded keep their source but are no longer updated
+      const existing = this.plugin.app.vault.getAbstractFileByPath(path);
+      if (existing) {
+        const rule = existing instanceof TFile ? this.getExclusionRule(existing) : null;
+        if (rule) {
+          plan.push({
+            filePath: path,
+            action: 'skip',
+            reason: `Excluded by "${rule.text}" (${rule.source})`,
+            included: false
+          });
+        }
+        return;
+      }
+
+      plan.push({
+        filePath: path,
+        action: 'delete',
+        reason: 'File no longer exists in the vault',
+        notebookId: mapping.notebookId,
+        resourceType: 'source',
+        resourceId: mapping.sourceId,
+        included: true
+      });
+    });
+
+    logger.info(`Built sync plan with ${plan.length} items`);
+    return plan;
+  }
+
+  /**
+   * Carry out one item of a sync plan
+   */
+  public async executePlanItem(item: SyncPlanItem): Promise<SyncPlanResult> {
+    try {
+      if (item.action === 'delete') {
+        return await this.executePlannedDelete(item);
+      }
+
+      const file = this.plugin.app.vault.getAbstractFileByPath(item.filePath);
+      if (!(file instanceof TFile)) {
+        return { success: false, message: 'File no longer exists' };
+      }
+
+      if (item.action === 'rename') {
+        return await this.executePlannedRename(item, file);
+      }
+
+      // The linked source or note is gone - unlink it so a fresh one is created
+      if (item.remoteMissing) {
+        await this.unlinkFile(file);
+      }
+
+      const notebookId = await this.resolveNotebookForFile(file) || item.notebookId;
+      if (!notebookId) {
+        this.recordOutcome(file.path, 'skip', 'No notebook mapped');
+        return { success: false, message: 'No notebook mapped' };
+      }
+
+      const resourceId = await this.syncFile(file, notebookId);
+
+      if (this.plugin.getOfflineQueue().hasOperation(file.path)) {
+        return { success: true, message: 'Queued - Open Notebook is unreachable' };
+      }
+      if (this.plugin.getConflictQueue().has(file.path)) {
+        return { success: true, message: 'Conflict queued for review' };
+      }
+      if (!resourceId) {
+        return { success: true, message: 'Nothing to sync' };
+      }
+
+      const done: Record<string, string> = {
+        create: 'Created',
+        update: 'Updated',
+        recreate: 'Replaced',
+        conflict: 'Resolved with the conflict policy'
+      };
+      return { success: true, message: done[item.action] || 'Synced' };
+    } catch (error) {
+      logger.error(`Failed to execute plan item for ${item.filePath}`, error);
+      return { success: false, message: error.message || 'Unknown error' };
+    }
+  }
+
+  /**
+   * Collect the files a full sync visits, with the notebook of their nearest mapped folder
+   */
+  private getPlanCandidates(): Map<TFile, string | undefined> {
+    const candidates = new Map<TFile, string | undefined>();
+    const notebookManager = this.plugin.getNotebookManager();
+    const mappings = this.plugin.settings.folderToNotebook;
+
+    for (const folderPath of Object.keys(mappings)) {
+      const folder = this.plugin.app.vault.getAbstractFileByPath(folderPath);
+      if (folder instanceof TFolder) {
+        // Nested folders may be linked to other notebooks, so resolve per file
+        this.getSyncableFilesInFolder(folder).forEach(file => candidates.set(
+          file,
+          (file.parent && notebookManager.resolveFolderMapping(file.parent.path)?.notebookId) || mappings[folderPath]
+        ));
+      }
+    }
+
+    // Files routed by tag or property may live outside mapped folders
+    if (this.plugin.settings.mappingStrategy !== NotebookMappingStrategy.FOLDER) {
+      this.plugin.app.vault.getMarkdownFiles()
+        .filter(file => !candidates.has(file) && !this.isExcluded(file) && !!notebookManager.getNotebookNameForFile(file))
+        .forEach(file => candidates.set(file, undefined));
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Classify what syncing a file would do
+   */
+  private async planFile(
+    file: TFile,
+    folderNotebookId: string | undefined,
+    pathsBySourceId: Map<string, string>,
+    remoteIds: Map<string, Promise<Set<string>>> | null
+  ): Promise<SyncPlanItem> {
+    // Don't create notebooks while planning - a named notebook that doesn't exist yet is created on execution
+    const notebookManager = this.plugin.getNotebookManager();
+    const notebookId = await notebookManager.resolveNotebookForFile(file, false) || folderNotebookId;
+    const notebookName = notebookManager.getNotebookNameForFile(file);
+    const item = { filePath: file.path, notebookId, included: true };
+
+    if (!notebookId && !notebookName) {
+      return { ...item, action: 'skip', reason: 'No notebook mapped', included: false };
+    }
+
+    if (this.isAttachment(file)) {
+      return this.planAttachment(file, notebookId, remoteIds);
+    }
+
+    const metadata = await this.metadataManager.getMetadata(file);
+    if (metadata.on_sync_enabled === false) {
+      return { ...item, action: 'skip', reason: 'Sync disabled in frontmatter', included: false };
+    }
+
+    if (this.isImportedCopy(metadata)) {
+      return { ...item, action: 'skip', reason: 'Imported from Open Notebook (pull only)', included: false };
+    }
+
+    const bodyContent = await this.metadataManager.getBodyContent(file);
+    if (!bodyContent || bodyContent.trim().length === 0) {
+      return { ...item, action: 'skip', reason: 'Empty file', included: false };
+    }
+
+    const mapping = this.syncMappings.get(file.path);
+    const resourceType = metadata.on_note_id || this.plugin.settings.syncTarget === SyncTarget.NOTES ? 'note' : 'source';
+    const resourceId = metadata.on_note_id || metadata.on_source_id || mapping?.sourceId;
+    const linked = { ...item, resourceType, resourceId } as const;
+
+    if (!resourceId) {
+      const reason = notebookId ? 'Not synced yet' : `Not synced yet (creates notebook "${notebookName}")`;
+      return { ...linked, action: 'create', reason };
+    }
+
+    if (resourceType === 'note' && !metadata.on_note_id) {
+      return { ...linked, action: 'create', reason: 'Converts the source into a note' };
+    }
+
+    const recordedNotebookId = metadata.on_notebook_id || notebookId;
+    if (remoteIds && recordedNotebookId) {
+      const ids = await this.getRemoteIds(recordedNotebookId, remoteIds);
+      if (!ids.has(resourceId)) {
+        return { ...linked, action: 'recreate', reason: `${resourceType === 'note' ? 'Note' : 'Source'} missing in Open Notebook`, remoteMissing: true };
+      }
+    }
+
+    const { body, checksum: currentChecksum } = await this.getUploadContent(file, resourceType);
+    const storedChecksum = metadata.on_checksum || mapping?.hash;
+    const recordedNotebookIds = this.getRecordedMemberships(metadata.on_notebook_id, metadata.on_notebook_ids);
+    const notebookChanged = !!notebookId && await this.membershipsChanged(file, notebookId, recordedNotebookIds, resourceType, false);
+
+    if (this.metadataManager.checksumMatches(storedChecksum, body, currentChecksum)) {
+      if (notebookChanged) {
+        // Sources are linked and unlinked; notes belong to one notebook and are recreated
+        return resourceType === 'note'
+          ? { ...linked, action: 'recreate', reason: 'Moves to another notebook' }
+          : { ...linked, action: 'update', reason: recordedNotebookIds[0] !== notebookId ? 'Moves to another notebook' : 'Joins or leaves notebooks' };
+      }
+
+      const previousPath = !mapping && metadata.on_source_id ? pathsBySourceId.get(metadata.on_source_id) : undefined;
+      if (previousPath && !this.plugin.app.vault.getAbstractFileByPath(previousPath)) {
+        return { ...linked, action: 'rename', reason: `Renamed from ${previousPath}`, previousPath };
+      }
+
+      if (resourceType === 'source' && this.sourceDetailsChanged(file, metadata)) {
+        return { ...linked, action: 'update', reason: 'Title or topics changed' };
+      }
+
+      return { ...linked, action: 'skip', reason: 'Unchanged', included: false };
+    }
+
+    if (await this.checkForConflict(file, resourceId, resourceType)) {
+      return { ...linked, action: 'conflict', reason: 'Changed locally and in Open Notebook - the conflict policy decides' };
+    }
+
+    return resourceType === 'note'
+      ? { ...linked, action: 'update', reason: 'Changed locally' }
+      : { ...linked, action: 'recreate', reason: 'Changed locally (sources are replaced, keeping their insights)' };
+  }
+
+  /**
+   * Classify what syncing an attachment would do
+   */
+  private async planAttachment(
+    file: TFile,
+    notebookId: string | undefined,
+    remoteIds: Map<string, Promise<Set<string>>> | null
+  ): Promise<SyncPlanItem> {
+    const mapping = this.syncMappings.get(file.path);
+    const item = { filePath: file.path, notebookId, resourceType: 'source', resourceId: mapping?.sourceId, included: true } as const;
+
+    if (!AttachmentHelper.isWithinSizeLimit(file)) {
+      return { ...item, action: 'skip', reason: 'Too large to upload', included: false };
+    }
+
+    if (!mapping) {
+      return { ...item, action: 'create', reason: 'Not uploaded yet' };
+    }
+
+    const recordedNotebookId = mapping.notebookId || notebookId;
+    if (remoteIds && recordedNotebookId) {
+      const ids = await this.getRemoteIds(recordedNotebookId, remoteIds);
+      if (!ids.has(mapping.sourceId)) {
+        return { ...item, action: 'recreate', reason: 'Source missing in Open Notebook', remoteMissing: true };
+      }
+    }
+
+    const recordedNotebookIds = this.getRecordedMemberships(mapping.notebookId, mapping.notebookIds);
+    const notebookChanged = !!notebookId && await this.membershipsChanged(file, notebookId, recordedNotebookIds, 'source', false);
+    if (!notebookChanged && file.stat.mtime <= mapping.lastSynced) {
+      return { ...item, action: 'skip', reason: 'Unchanged', included: false };
+    }
+
+    const data = await this.plugin.app.vault.readBinary(file);
+    const checksum = await this.metadataManager.computeChecksumFromBinary(data);
+    if (this.metadataManager.binaryChecksumMatches(mapping.hash, data, checksum)) {
+      return notebookChanged
+        ? { ...item, action: 'update', reason: recordedNotebookIds[0] !== notebookId ? 'Moves to another notebook' : 'Joins or leaves notebooks' }
+        : { ...item, action: 'skip', reason: 'Unchanged', included: false };
+    }
+
+    return { ...item, action: 'recreate', reason: 'Attachment changed (replaces the upload)' };
+  }
+
+  /**
+   * Get the IDs of all sources and notes in a notebook, fetched once per plan
+   */
+  private getRemoteIds(notebookId: string, cache: Map<string, Promise<Set<string>>>): Promise<Set<string>> {
+    let ids = cache.get(notebookId);
+    if (!ids) {
+      ids = Promise.all([this.client.getSources(notebookId), this.client.getNotes(notebookId)])
+        .then(([sources, notes]) => new Set([...sources.map(s => s.id), ...notes.map(n => n.id)]));
+      cache.set(notebookId, ids);
+    }
+    return ids;
+  }
+
+  /**
+   * Delete the source of a file removed from the vault
+   */
+  private async executePlannedDelete(item: SyncPlanItem): Promise<SyncPlanResult> {
+    if (!item.resourceId) {
+      return { success: false, message: 'Nothing to delete' };
+    }
+
+    const resourceType = item.resourceType || 'source';
+    try {
+      await this.deleteRemoteForPath(resourceType, item.resourceId, item.filePath);
+      return { success: true, message: 'Deleted' };
+    } catch (error) {
+      const queued = await this.queueIfOffline(error, {
+        type: 'delete',
+        resourceType,
+        resourceId: item.resourceId,
+        localPath: item.filePath
+      });
+      this.recordOutcome(item.filePath, 'error', queued ? 'Open Notebook unreachable - delete queued' : `Delete failed: ${error.message}`, {
+        resourceType,
+        resourceId: item.resourceId
+      });
+      if (queued) {
+        return { success: true, message: 'Queued - Open Notebook is unreachable' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Follow a file renamed while the plugin wasn't watching
+   */
+  private async executePlannedRename(item: SyncPlanItem, file: TFile): Promise<SyncPlanResult> {
+    const mapping = item.previousPath ? this.syncMappings.get(item.previousPath) : undefined;
+    if (item.previousPath && mapping) {
+      this.syncMappings.delete(item.previousPath);
+      mapping.filePath = file.path;
+      this.syncMappings.set(file.path, mapping);
+      await this.saveMappings();
+      await this.snapshotStore.rename(item.previousPath, file.path);
+    }
+
+    if (!item.resourceId) {
+      this.recordOutcome(file.path, 'rename', `Renamed from ${item.previousPath}`);
+      return { success: true, message: 'Mapping updated' };
+    }
+
+    const resourceType = item.resourceType || 'source';
+    try {
+      await this.retitleRemote(resourceType, item.resourceId, file);
+      return { success: true, message: 'Renamed' };
+    } catch (error) {
+      const queued = await this.queueIfOffline(error, {
+        type: 'rename',
+        resourceType,
+        resourceId: item.resourceId,
+        localPath: file.path
+      });
+      this.recordOutcome(file.path, 'error', queued ? 'Open Notebook unreachable - rename queued' : `Rename failed: ${error.message}`, {
+        resourceType,
+        resourceId: item.resourceId
+      });
+      if (queued) {
+        return { success: true, message: 'Queued - Open Notebook is unreachable' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Forget a file's link to a source or note that no longer exists
+   */
+  private async unlinkFile(file: TFile): Promise<void> {
+    if (this.syncMappings.delete(file.path)) {
+      await this.saveMappings();
+    }
+
+    if (!this.isAttachment(file)) {
+      await this.metadataManager.updateMetadata(file, {
+        on_source_id: undefined,
+        on_note_id: undefined,
+        on_checksum: undefined
+      });
+    }
+  }
+
+  /**
+   * Resolve the target notebook for a file using the configured mapping strategy
+   */
+  private async resolveNotebookForFile(file: TFile): Promise<string | undefined> {
+    return this.plugin.getNotebookManager().resolveNotebookForFile(file);
+  }
+
+  /**
+   * Get every notebook a file's source belongs to, the notebook it syncs to first
+   * Other notebooks come from further tags, property values or nested folder links
+   */
+  private async getMemberships(file: TFile, notebookId: string, createIfMissing: boolean = true): Promise<string[]> {
+    const resolved = await this.plugin.getNotebookManager().resolveNotebooksForFile(file, createIfMissing);
+    return [notebookId, ...resolved.filter(id => id !== notebookId)];
+  }
+
+  /**
+   * Get the notebooks a file was last synced to, from its recorded notebook and memberships
+   */
+  private getRecordedMemberships(notebookId: string | undefined, notebookIds: string[] | undefined): string[] {
+    if (notebookIds && notebookIds.length > 0) {
+      return notebookIds;
+    }
+    return notebookId ? [notebookId] : [];
+  }
+
+  /**
+   * Check if two membership lists hold the same notebooks, in any order
+   */
+  private sameMemberships(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every(id => b.includes(id));
+  }
+
+  /**
+   * Metadata recording a file's memberships; the list is only stored for shared sources
+   */
+  private getMembershipMetadata(notebookIds: string[]): Partial<NoteFrontmatter> {
+    return {
+      on_notebook_id: notebookIds[0],
+      on_notebook_ids: notebookIds.length > 1 ? notebookIds : undefined
+    };
+  }
+
+  /**
+   * Mapping fields recording an attachment's memberships
+   */
+  private getMembershipMapping(notebookIds: string[]): Pick<SyncMapping, 'notebookId' | 'notebookIds'> {
+    return {
+      notebookId: notebookIds[0],
+      notebookIds: notebookIds.length > 1 ? notebookIds : undefined
+    };
+  }
+
+  /**
+   * Describe a membership change for the journal
+   */
+  private describeMembershipChange(previous: string[], current: string[]): string {
+    if (previous.length === 1 && current.length === 1) {
+      return 'Moved to another notebook';
+    }
+    const added = current.filter(id => !previous.includes(id)).length;
+    const removed = previous.filter(id => !current.includes(id)).length;
+    return [
+      added > 0 ? `added to ${added} notebook${added === 1 ? '' : 's'}` : '',
+      removed > 0 ? `removed from ${removed} notebook${removed === 1 ? '' : 's'}` : ''
+    ].filter(Boolean).join(', ').replace(/^./, c => c.toUpperCase());
+  }
+
+  /**
+   * Link a source to the notebooks it joined and unlink it from those it left, without recreating it
+   * Leaving a notebook never deletes the source from the others
+   * Returns false if the server refused a link, so the caller can recreate instead
+   */
+  private async updateMemberships(sourceId: string, previous: string[], current: string[]): Promise<boolean> {
+    for (const notebookId of current.filter(id => !previous.includes(id))) {
+      try {
+        await this.client.addSourceToNotebook(notebookId, sourceId);
+      } catch (error) {
+        logger.warn(`Could not link source ${sourceId} to notebook ${notebookId}, will recreate`, error);
+        return false;
+      }
+    }
+
+    for (const notebookId of previous.filter(id => !current.includes(id))) {
+      try {
+        await this.client.removeSourceFromNotebook(notebookId, sourceId);
+      } catch (error) {
+        // Source is already in its new notebooks - a stale link is harmless
+        logger.warn(`Could not unlink source ${sourceId} from notebook ${notebookId}`, error);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Check if a synced file now belongs to other notebooks than it was synced to
+   * Notes live in a single notebook, so only that one counts for them
+   */
+  private async membershipsChanged(
+    file: TFile,
+    notebookId: string,
+    recorded: string[],
+    resourceType: 'source' | 'note',
+    createIfMissing: boolean = true
+  ): Promise<boolean> {
+    if (recorded.length === 0) {
+      return false;
+    }
+    if (resourceType === 'note') {
+      return recorded[0] !== notebookId;
+    }
+    return !this.sameMemberships(recorded, await this.getMemberships(file, notebookId, createIfMissing));
+  }
+
+  /**
+   * Get the text a note uploads, the checksum stored for it, and the raw body legacy checksums were taken over
+   * Sources are preprocessed; notes round-trip through pulls, so they keep their markdown
+   */
+  private async getUploadContent(file: TFile, resourceType: 'source' | 'note'): Promise<{ content: string; checksum: string; body: string }> {
+    const body = await this.metadataManager.getBodyContent(file);
+    const content = resourceType === 'source' ? await this.preprocessor.process(file, body) : body;
+    return { content, checksum: await this.metadataManager.computeChecksumFromContent(content), body };
+  }
+
+  /**
+   * Rewrite a legacy checksum in the current format once the file is known to be unchanged
+   */
+  private async upgradeChecksum(file: TFile, metadata: NoteFrontmatter, checksum: string): Promise<void> {
+    if (this.metadataManager.isLegacyChecksum(metadata.on_checksum)) {
+      await this.metadataManager.updateMetadata(file, { on_checksum: checksum });
+      metadata.on_checksum = checksum;
+    }
+
+    const mapping = this.syncMappings.get(file.path);
+    if (mapping && this.metadataManager.isLegacyChecksum(mapping.hash)) {
+      mapping.hash = checksum;
+      await this.saveMappings();
+    }
+  }
+
+  /**
+   * Record a sync outcome in the journal
+   */
+  private recordOutcome(
+    filePath: string,
+    action: SyncJournalAction,
+    message: string,
+    details: Pick<SyncJournalEntry, 'resourceType' | 'resourceId' | 'notebookId'> = {}
+  ): void {
+    this.plugin.getSyncJournal().record({ filePath, action, message, ...details });
+  }
+
+  /**
+   * Record that a file in a linked folder was skipped because it is excluded
+   * Excluded files elsewhere in the vault were never going to sync, so they aren't recorded
+   */
+  private recordExclusion(file: TFile): void {
+    if (!this.plugin.getNotebookManager().getNotebookForFile(file) && !this.syncMappings.has(file.path)) {
+      return;
+    }
+
+    const rule = this.getExclusionRule(file);
+    const reason = rule ? `Excluded by "${rule.text}" (${rule.source})` : 'In an excluded folder';
+    this.recordOutcome(file.path, 'skip', reason);
+  }
+
+  /**
+   * Record how a conflict was handled
+   */
+  private recordConflict(conflict: ConflictInfo, message: string): void {
+    this.recordOutcome(conflict.filePath, 'conflict', message, {
+      resourceType: conflict.resourceType,
+      resourceId: conflict.resourceId
+    });
+  }
+
+  /**
+   * Sync a file again after a failure recorded in the journal
+   * Returns the message shown for the outcome
+   */
+  public async retryFile(filePath: string): Promise<string> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+    if (!(file instanceof TFile)) {
+      return 'File no longer exists';
+    }
+
+    if (this.isExcluded(file)) {
+      this.recordExclusion(file);
+      return 'File is excluded from sync';
+    }
+
+    const notebookId = await this.resolveNotebookForFile(file) ||
+      (this.isAttachment(file) ? this.syncMappings.get(file.path)?.notebookId : undefined);
+    if (!notebookId) {
+      this.recordOutcome(file.path, 'skip', 'No notebook mapped');
+      return 'No notebook mapped';
+    }
+
+    // Unchanged files sync without a journal entry
+    const startedAt = Date.now();
+    await this.syncFile(file, notebookId);
+    const latest = this.plugin.getSyncJournal().getLatest(file.path);
+    return latest && latest.timestamp >= startedAt ? latest.message : 'Already up to date';
+  }
+
+  /**
+   * Check if a file is excluded from sync by an excluded folder or exclusion rule
+   */
+  public isExcluded(file: TFile): boolean {
+    return this.exclusionRules.isExcluded(file);
+  }
+
+  /**
+   * Get the rule that excludes a file from sync, or null if it isn't excluded
+   */
+  public getExclusionRule(file: TFile): ExclusionRule | null {
+    return this.exclusionRules.getExcludingRule(file);
+  }
+
+  /**
+   * Move sync metadata between frontmatter and the sidecar index, then switch storage
+   */
+  public async migrateMetadataStorage(target: MetadataStorage): Promise<number> {
+    const migrated = await this.metadataManager.migrateStorage(target, this.plugin.app.vault.getMarkdownFiles());
+    await this.plugin.saveSettings();
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+    return migrated;
+  }
+
+  /**
+   * Re-read the .opennotebookignore files in the vault
+   */
+  public async reloadExclusionRules(): Promise<void> {
+    await this.exclusionRules.reload();
+  }
+
+  /**
+   * Get all syncable files in a folder recursively
+   * Subfolders excluded from the folder's notebook and excluded files are skipped
+   */
+  private getSyncableFilesInFolder(folder: TFolder): TFile[] {
+    const files: TFile[] = [];
+    const notebookManager = this.plugin.getNotebookManager();
+
+    const processFolder = (f: TFolder) => {
+      const folderPath = f.path;
+
+      if (f !== folder && !notebookManager.resolveFolderMapping(folderPath)) {
+        logger.debug(`Skipping folder excluded from its parent notebook: ${folderPath}`);
+        return;
+      }
+
+      for (const child of f.children) {
+        if (child instanceof TFile && this.isSyncableFile(child)) {
+          // Checked per file, since a negated rule can re-include a file in an excluded folder
+          if (this.isExcluded(child)) {
+            logger.debug(`Skipping excluded file: ${child.path}`);
+          } else {
+            files.push(child);
+          }
+        } else if (child instanceof TFolder) {
+          processFolder(child);
+        }
+      }
+    };
+
+    processFolder(folder);
+    return files;
+  }
+
+  /**
+   * Handle file creation
+   */
+  public async onFileCreated(file: TFile): Promise<void> {
+    // Don't auto-sync during initialization - let verifySyncState handle it
+    if (this.isInitializing) {
+      logger.debug(`Skipping auto-sync for ${file.path} during initialization`);
+      return;
+    }
+
+    // Files written by a pull are already linked to their note
+    if (this.isPullEcho(file)) {
+      return;
+    }
+
+    // Skip files in excluded folders or matching an exclusion rule
+    if (this.isExcluded(file)) {
+      logger.debug(`Skipping excluded file: ${file.path}`);
+      this.recordExclusion(file);
+      return;
+    }
+
+    // Check if auto-sync is enabled
+    if (!this.plugin.settings.autoSyncOnSave) {
+      return;
+    }
+
+    // Interval and manual modes pick new files up with the other pending changes
+    if (this.plugin.settings.syncMode !== SyncMode.REALTIME) {
+      this.plugin.getSyncScheduler().scheduleSync(file);
+      return;
+    }
+
+    try {
+      // Small delay to ensure file is fully created (and its metadata indexed)
+      await this.sleep(500);
+
+      // Only auto-sync if file is in a linked folder or declares a notebook
+      const notebookId = await this.resolveNotebookForAutoSync(file);
+      if (notebookId === null) {
+        return;
+      }
+      if (!notebookId) {
+        logger.debug(`No notebook mapped for ${file.path}, skipping auto-sync`);
+        return;
+      }
+
+      await this.syncFile(file, notebookId);
+      logger.info(`Auto-synced new file ${file.path}`);
+      NoticeHelper.success(`Synced new file: ${file.basename}`);
+    } catch (error) {
+      logger.error(`Failed to auto-sync new file ${file.path}`, error);
+    }
+  }
+
+  /**
+   * Handle file modification
+   * Returns false only if the sync was attempted and failed
+   */
+  public async onFileModified(
+    file: TFile,
+    options: { force?: boolean; notify?: boolean } = {}
+  ): Promise<boolean> {
+    const { force = false, notify = true } = options;
+
+    // Files written by a pull already match the remote note
+    if (this.isPullEcho(file)) {
+      return true;
+    }
+
+    // Skip files in excluded folders or matching an exclusion rule
+    if (this.isExcluded(file)) {
+      logger.debug(`Skipping excluded file: ${file.path}`);
+      this.recordExclusion(file);
+      return true;
+    }
+
+    // Check if auto-sync is enabled (explicit syncs bypass this)
+    if (!force && !this.plugin.settings.autoSyncOnSave) {
+      return true;
+    }
+
+    if (this.isAttachment(file)) {
+      return this.onAttachmentModified(file, notify);
+    }
+
+    // Get the notebook ID from the file's folder, tag or property
+    const notebookId = await this.resolveNotebookForAutoSync(file);
+    if (notebookId === null) {
+      return true;
+    }
+    if (!notebookId) {
+      logger.debug(`No notebook mapped for ${file.path}`);
+      return true;
+    }
+
+    // Check if file has sync metadata
+    const metadata = await this.metadataManager.getMetadata(file);
+    const hasSyncMetadata = !!(metadata.on_source_id || metadata.on_note_id);
+
+    // Imported copies only pull
+    if (this.isImportedCopy(metadata)) {
+      return true;
+    }
+
+    // Check if content has actually changed (excluding frontmatter, including embedded notes)
+    const resourceType = metadata.on_note_id || this.plugin.settings.syncTarget === SyncTarget.NOTES ? 'note' : 'source';
+    const notebookChanged = hasSyncMetadata &&
+      await this.membershipsChanged(file, notebookId, this.getRecordedMemberships(metadata.on_notebook_id, metadata.on_notebook_ids), resourceType);
+    const { body, checksum } = await this.getUploadContent(file, resourceType);
+    const hasChanged = !this.metadataManager.checksumMatches(metadata.on_checksum, body, checksum) ||
+      (resourceType === 'source' && this.sourceDetailsChanged(file, metadata));
+    if (!hasChanged && hasSyncMetadata && !notebookChanged) {
+      logger.debug(`Content hasn't changed for ${file.path}, skipping auto-sync`);
+      return true;
+    }
+
+    try {
+      await this.syncFile(file, notebookId);
+
+      // Server unreachable - the sync was queued and will be replayed
+      if (this.plugin.getOfflineQueue().hasOperation(file.path)) {
+        return true;
+      }
+
+      if (hasSyncMetadata) {
+        logger.info(`Auto-synced modified file ${file.path}`);
+        if (notify) {
+          NoticeHelper.success(`Updated: ${file.basename}`);
+        }
+      } else {
+        // File was created but not synced initially (was empty)
+        logger.info(`Auto-synced new file ${file.path} (first edit)`);
+        if (notify) {
+          NoticeHelper.success(`Synced: ${file.basename}`);
+        }
+      }
+      return true;
+    } catch (error) {
+      logger.error(`Failed to auto-sync file ${file.path}`, error);
+      if (notify) {
+        NoticeHelper.error(`Failed to sync: ${file.basename}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Handle attachment modification - replace the uploaded source if the bytes changed
+   */
+  private async onAttachmentModified(file: TFile, notify: boolean): Promise<boolean> {
+    // Embedded attachments keep the notebook they were uploaded to
+    const mapping = this.syncMappings.get(file.path);
+    const notebookId = await this.resolveNotebookForFile(file) || mapping?.notebookId;
+    if (!notebookId) {
+      logger.debug(`No notebook mapped for ${file.path}`);
+      return true;
+    }
+
+    try {
+      const previousSourceId = mapping?.sourceId;
+      const sourceId = await this.syncAttachment(file, notebookId);
+
+      if (sourceId && sourceId !== previousSourceId) {
+        logger.info(`Auto-synced attachment ${file.path}`);
+        if (notify) {
+          NoticeHelper.success(`Updated: ${file.name}`);
+        }
+      }
+      return true;
+    } catch (error) {
+      logger.error(`Failed to auto-sync attachment ${file.path}`, error);
+      if (notify) {
+        NoticeHelper.error(`Failed to sync: ${file.name}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Handle file deletion
+   */
+  public async onFileDeleted(file: TFile): Promise<void> {
+    await this.snapshotStore.remove(file.path);
+    await this.clearCreateMarker(file.path);
+
+    // Check both frontmatter and legacy mapping
+    const metadata = await this.metadataManager.getMetadata(file);
+    await this.metadataManager.removeFile(file.path);
+
+    if (metadata.on_note_id) {
+      try {
+        await this.client.deleteNote(metadata.on_note_id);
+        this.plugin.getSyncIndicatorManager()?.refreshAll();
+        logger.info(`Deleted note ${metadata.on_note_id} for file ${file.path}`);
+        this.recordOutcome(file.path, 'delete', 'Deleted note', { resourceType: 'note', resourceId: metadata.on_note_id });
+      } catch (error) {
+        const queued = await this.queueIfOffline(error, {
+          type: 'delete',
+          resourceType: 'note',
+          resourceId: metadata.on_note_id,
+          localPath: file.path
+        });
+        if (!queued) {
+          logger.error(`Failed to delete note for file ${file.path}`, error);
+        }
+        this.recordOutcome(file.path, 'error', queued ? 'Open Notebook unreachable - delete queued' : `Delete failed: ${error.message}`, {
+          resourceType: 'note',
+          resourceId: metadata.on_note_id
+        });
+      }
+      return;
+    }
+
+    const mapping = this.syncMappings.get(file.path);
+    const sourceId = metadata.on_source_id || mapping?.sourceId;
+
+    if (!sourceId) {
+      // File not synced
+      return;
+    }
+
+    // Deleting an imported copy leaves the original source alone
+    if (this.isImportedCopy(metadata)) {
+      if (this.syncMappings.delete(file.path)) {
+        await this.saveMappings();
+      }
+      logger.info(`Deleted imported copy ${file.path}, keeping source ${sourceId}`);
+      this.recordOutcome(file.path, 'skip', 'Imported copy deleted - source kept in Open Notebook', { resourceType: 'source', resourceId: sourceId });
+      return;
+    }
+
+    try {
+      // Delete the source from Open Notebook
+      await this.client.deleteSource(sourceId);
+
+      // Clear frontmatter metadata (if file still exists) - attachments have none
+      if (!this.isAttachment(file)) {
+        try {
+          await this.metadataManager.clearMetadata(file);
+        } catch (error) {
+          // File might already be gone, that's okay
+          logger.debug(`Could not clear metadata for ${file.path} (file may be deleted)`);
+        }
+      }
+
+      // Remove legacy mapping
+      this.syncMappings.delete(file.path);
+      await this.saveMappings();
+
+      // Refresh indicators
+      this.plugin.getSyncIndicatorManager()?.refreshAll();
+
+      logger.info(`Deleted source ${sourceId} for file ${file.path}`);
+      this.recordOutcome(file.path, 'delete', 'Deleted source', { resourceType: 'source', resourceId: sourceId });
+    } catch (error) {
+      // The mapping stays until the queued delete succeeds
+      const queued = await this.queueIfOffline(error, {
+        type: 'delete',
+        resourceType: 'source',
+        resourceId: sourceId,
+        localPath: file.path
+      });
+      if (!queued) {
+        logger.error(`Failed to delete source for file ${file.path}`, error);
+      }
+      this.recordOutcome(file.path, 'error', queued ? 'Open Notebook unreachable - delete queued' : `Delete failed: ${error.message}`, {
+        resourceType: 'source',
+        resourceId: sourceId
+      });
+    }
+  }
+
+  /**
+   * Handle file rename
+   * A move into a folder linked to another notebook takes the source (or note) along
+   */
+  public async onFileRenamed(file: TFile, oldPath: string): Promise<void> {
+    await this.snapshotStore.rename(oldPath, file.path);
+    await this.metadataManager.renameFile(oldPath, file.path);
+
+    const marker = this.createMarkers.get(oldPath);
+    if (marker) {
+      this.createMarkers.delete(oldPath);
+      this.createMarkers.set(file.path, marker);
+      await this.saveCreateMarkers();
+    }
+
+    // Get metadata and mapping - a folder rename may have moved the mapping already
+    const metadata = await this.metadataManager.getMetadata(file);
+    const mapping = this.syncMappings.get(oldPath) || this.syncMappings.get(file.path);
+
+    // Update legacy mapping with new path
+    if (mapping && mapping.filePath !== file.path) {
+      this.syncMappings.delete(oldPath);
+      mapping.filePath = file.path;
+      this.syncMappings.set(file.path, mapping);
+      await this.saveMappings();
+    }
+
+    const resourceType = metadata.on_note_id ? 'note' : 'source';
+    const resourceId = metadata.on_note_id || metadata.on_source_id || mapping?.sourceId;
+
+    if (!resourceId) {
+      // File not synced
+      return;
+    }
+
+    // Imported copies keep the source's own title and notebooks
+    if (this.isImportedCopy(metadata)) {
+      return;
+    }
+
+    // A move keeps the file name, so the remote title only changes on an actual rename
+    if (oldPath.split('/').pop() !== file.name) {
+      try {
+        await this.retitleRemote(resourceType, resourceId, file);
+      } catch (error) {
+        const queued = await this.queueIfOffline(error, {
+          type: 'rename',
+          resourceType,
+          resourceId,
+          localPath: file.path
+        });
+        if (!queued) {
+          logger.error(`Failed to update ${resourceType} after rename`, error);
+        }
+        this.recordOutcome(file.path, 'error', queued ? 'Open Notebook unreachable - rename queued' : `Rename failed: ${error.message}`, {
+          resourceType,
+          resourceId
+        });
+      }
+    }
+
+    const recorded = metadata.on_notebook_id
+      ? this.getRecordedMemberships(metadata.on_notebook_id, metadata.on_notebook_ids)
+      : this.getRecordedMemberships(mapping?.notebookId, mapping?.notebookIds);
+    await this.followNotebook(file, recorded, resourceType);
+  }
+
+  /**
+   * Handle a renamed or moved folder: rebase mappings and sidecar entries of every file under it at once
+   * Obsidian also fires a rename per file, which finds its mapping already under the new path
+   */
+  public async onFolderRenamed(oldPath: string, newPath: string): Promise<void> {
+    const moved: SyncMapping[] = [];
+    for (const [path, mapping] of Array.from(this.syncMappings.entries())) {
+      if (path.startsWith(oldPath + '/')) {
+        this.syncMappings.delete(path);
+        moved.push(mapping);
+      }
+    }
+
+    for (const mapping of moved) {
+      mapping.filePath = newPath + mapping.filePath.slice(oldPath.length);
+      this.syncMappings.set(mapping.filePath, mapping);
+    }
+
+    if (moved.length > 0) {
+      await this.saveMappings();
+    }
+    await this.metadataManager.renameFolder(oldPath, newPath);
+
+    logger.info(`Folder ${oldPath} renamed to ${newPath}, moved ${moved.length} sync mappings`);
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+  }
+
+  /**
+   * After a move, sync the file to the notebooks its new location resolves to if they changed
+   * Files moved out of every linked folder keep their source
+   */
+  private async followNotebook(file: TFile, previousNotebookIds: string[], resourceType: 'source' | 'note'): Promise<void> {
+    const previousNotebookId = previousNotebookIds[0];
+    if (!previousNotebookId) {
+      return;
+    }
+
+    if (this.isExcluded(file)) {
+      this.recordExclusion(file);
+      return;
+    }
+
+    const notebookId = await this.resolveNotebookForFile(file);
+    if (!notebookId) {
+      logger.info(`${file.path} moved out of linked folders, keeping its source`);
+      this.recordOutcome(file.path, 'skip', 'Moved out of linked folders - source kept', { notebookId: previousNotebookId });
+      return;
+    }
+
+    if (!(await this.membershipsChanged(file, notebookId, previousNotebookIds, resourceType))) {
+      return;
+    }
+
+    logger.info(`${file.path} moved from notebook ${previousNotebookId} to ${notebookId}`);
+    try {
+      await this.syncFile(file, notebookId);
+    } catch (error) {
+      // syncFile already recorded the failure
+      logger.error(`Failed to move ${file.path} to notebook ${notebookId}`, error);
     }
   }
 
   /**
-   * Handle file modification
+   * Replay a queued file operation once Open Notebook is reachable again
+   * Errors propagate so the offline queue keeps the operation for another attempt
    */
-  public async onFileModified(file: TFile): Promise<void> {
-    // Skip files in excluded folders
-    if (this.isFileInExcludedFolder(file)) {
-      logger.debug(`Skipping file in excluded folder: ${file.path}`);
+  public async replayOperation(operation: SyncOperation): Promise<void> {
+    const path = operation.localPath;
+    if (!path) {
       return;
     }
 
-    // Get the notebook ID from the file's folder
-    const folder = file.parent;
-    if (!folder) {
-      logger.debug(`File ${file.path} has no parent folder`);
+    const file = this.plugin.app.vault.getAbstractFileByPath(path);
+
+    if (operation.type === 'delete') {
+      if (operation.resourceId) {
+        await this.deleteRemoteForPath(operation.resourceType === 'note' ? 'note' : 'source', operation.resourceId, path);
+      }
       return;
     }
 
-    const notebookId = this.plugin.getNotebookManager().getNotebookForFolder(folder.path);
-    if (!notebookId) {
-      logger.debug(`No notebook mapped for folder ${folder.path}`);
+    // Deleted or renamed away since - the delete or rename handler queued its own operation
+    if (!(file instanceof TFile)) {
+      logger.info(`Skipping queued ${operation.type} for ${path}, file no longer exists`);
       return;
     }
 
-    // Check if auto-sync is enabled
-    if (!this.plugin.settings.autoSyncOnSave) {
+    if (operation.type === 'rename') {
+      if (operation.resourceId) {
+        await this.retitleRemote(operation.resourceType === 'note' ? 'note' : 'source', operation.resourceId, file);
+      }
       return;
     }
 
-    // Check if file has sync metadata
-    const metadata = await this.metadataManager.getMetadata(file);
-    const hasSyncMetadata = !!(metadata.on_source_id);
-
-    // Check if content has actually changed (excluding frontmatter)
-    const hasChanged = await this.metadataManager.hasContentChanged(file);
-    if (!hasChanged && hasSyncMetadata) {
-      logger.debug(`Content hasn't changed for ${file.path}, skipping auto-sync`);
+    const notebookId = await this.resolveNotebookForFile(file) || operation.notebookId;
+    if (!notebookId) {
+      logger.info(`Skipping queued sync for ${path}, no notebook mapped`);
       return;
     }
 
-    try {
-      await this.syncFile(file, notebookId);
+    // Carry over the marker of the failed create so an attempt that did go through is found
+    if (operation.data?.marker && !this.createMarkers.has(path)) {
+      this.createMarkers.set(path, operation.data.marker);
+      await this.saveCreateMarkers();
+    }
 
-      if (hasSyncMetadata) {
-        logger.info(`Auto-synced modified file ${file.path}`);
-        NoticeHelper.success(`Updated: ${file.basename}`);
+    // Re-syncs the current content, writing frontmatter and mappings as a live sync would
+    await this.pushFile(file, notebookId);
+    logger.info(`Replayed queued ${operation.type} for ${path}`);
+  }
+
+  /**
+   * Delete the source or note of a file that is gone, then drop the file's mapping
+   */
+  private async deleteRemoteForPath(resourceType: 'source' | 'note', resourceId: string, path: string): Promise<void> {
+    try {
+      if (resourceType === 'note') {
+        await this.client.deleteNote(resourceId);
       } else {
-        // File was created but not synced initially (was empty)
-        logger.info(`Auto-synced new file ${file.path} (first edit)`);
-        NoticeHelper.success(`Synced: ${file.basename}`);
+        await this.client.deleteSource(resourceId);
       }
     } catch (error) {
-      logger.error(`Failed to auto-sync file ${file.path}`, error);
-      NoticeHelper.error(`Failed to sync: ${file.basename}`);
+      // Already deleted in Open Notebook
+      if (!(error instanceof APIError && error.statusCode === 404)) {
+        throw error;
+      }
+    }
+
+    // A new file may have been synced to the same path since
+    if (this.syncMappings.get(path)?.sourceId === resourceId) {
+      this.syncMappings.delete(path);
+      await this.saveMappings();
+      await this.snapshotStore.remove(path);
     }
+
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+    logger.info(`Deleted ${resourceType} ${resourceId} for ${path}`);
+    this.recordOutcome(path, 'delete', `Deleted ${resourceType} after the file was removed`, { resourceType, resourceId });
   }
 
   /**
-   * Handle file deletion
+   * Send a file's current title to its source or note after a rename
    */
-  public async onFileDeleted(file: TFile): Promise<void> {
-    // Check both frontmatter and legacy mapping
-    const metadata = await this.metadataManager.getMetadata(file);
-    const mapping = this.syncMappings.get(file.path);
-    const sourceId = metadata.on_source_id || mapping?.sourceId;
-
-    if (!sourceId) {
-      // File not synced
-      return;
+  private async retitleRemote(resourceType: 'source' | 'note', resourceId: string, file: TFile): Promise<void> {
+    if (resourceType === 'note') {
+      await this.client.updateNote(resourceId, { title: file.basename });
+    } else {
+      const title = this.getSourceTitle(file);
+      await this.client.updateSource(resourceId, { title });
+
+      if (!this.isAttachment(file)) {
+        await this.metadataManager.updateMetadata(file, {
+          on_title: title,
+          on_modified_at: new Date(file.stat.mtime).toISOString()
+        });
+      }
     }
 
-    try {
-      // Delete the source from Open Notebook
-      await this.client.deleteSource(sourceId);
+    this.plugin.getSyncIndicatorManager()?.refreshAll();
+    logger.info(`Updated ${resourceType} ${resourceId} title for ${file.path}`);
+    this.recordOutcome(file.path, 'rename', `Updated ${resourceType} title`, { resourceType, resourceId });
+  }
 
-      // Clear frontmatter metadata (if file still exists)
-      try {
-        await this.metadataManager.clearMetadata(file);
-      } catch (error) {
-        // File might already be gone, that's okay
-        logger.debug(`Could not clear metadata for ${file.path} (file may be deleted)`);
+  /**
+   * Resolve a file's notebook for an automatic sync
+   * Returns null once the sync is queued because a notebook named by a tag or property couldn't be looked up offline
+   */
+  private async resolveNotebookForAutoSync(file: TFile): Promise<string | undefined | null> {
+    try {
+      return await this.resolveNotebookForFile(file);
+    } catch (error) {
+      if (await this.queueIfOffline(error, await this.getSyncOperation(file))) {
+        return null;
       }
+      throw error;
+    }
+  }
 
-      // Remove legacy mapping
-      this.syncMappings.delete(file.path);
-      await this.saveMappings();
+  /**
+   * Describe a file sync as a queueable operation
+   */
+  private async getSyncOperation(file: TFile, notebookId?: string): Promise<Omit<SyncOperation, 'id' | 'timestamp' | 'attempts' | 'status'>> {
+    const metadata: NoteFrontmatter = this.isAttachment(file) ? {} : await this.metadataManager.getMetadata(file);
+    const resourceId = metadata.on_note_id || metadata.on_source_id || this.syncMappings.get(file.path)?.sourceId;
+    const asNote = !!metadata.on_note_id ||
+      (!this.isAttachment(file) && this.plugin.settings.syncTarget === SyncTarget.NOTES);
+
+    const marker = this.createMarkers.get(file.path);
+
+    return {
+      type: resourceId ? 'update' : 'create',
+      resourceType: asNote ? 'note' : 'source',
+      resourceId,
+      localPath: file.path,
+      notebookId,
+      data: marker ? { marker } : undefined
+    };
+  }
 
-      // Refresh indicators
-      this.plugin.getSyncIndicatorManager()?.refreshAll();
+  /**
+   * Queue an operation that failed because Open Notebook was unreachable
+   * Returns false for any other error, which the caller handles as before
+   */
+  private async queueIfOffline(
+    error: unknown,
+    operation: Omit<SyncOperation, 'id' | 'timestamp' | 'attempts' | 'status'>
+  ): Promise<boolean> {
+    if (!(error instanceof APIError) || !error.isNetworkError()) {
+      return false;
+    }
 
-      logger.info(`Deleted source ${sourceId} for file ${file.path}`);
-    } catch (error) {
-      logger.error(`Failed to delete source for file ${file.path}`, error);
+    const queue = this.plugin.getOfflineQueue();
+    if (queue.getOnlineStatus()) {
+      NoticeHelper.warn('Open Notebook is unreachable - changes will sync when the connection is restored');
     }
+
+    // Offline: hold the operation for auto-processing instead of retrying right away
+    queue.setOnlineStatus(false);
+    await queue.enqueue({
+      ...operation,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now(),
+      attempts: 0,
+      status: 'pending'
+    });
+
+    logger.warn(`Open Notebook unreachable, queued ${operation.type} for ${operation.localPath}`);
+    return true;
   }
 
   /**
-   * Handle file rename
+   * Get the source title for a file - attachments keep their extension, notes resolve theirs from properties and headings
    */
-  public async onFileRenamed(file: TFile, oldPath: string): Promise<void> {
-    // Get metadata and mapping
-    const metadata = await this.metadataManager.getMetadata(file);
-    const mapping = this.syncMappings.get(oldPath);
-    const sourceId = metadata.on_source_id || mapping?.sourceId;
+  private getSourceTitle(file: TFile): string {
+    return this.isAttachment(file) ? file.name : this.sourceDetails.getTitle(file);
+  }
 
-    if (!sourceId) {
-      // File not synced
-      return;
-    }
+  /**
+   * Resolve a note's title and topics, noting which differ from what the source was last sent
+   * Files synced before titles were recorded were sent their file name
+   */
+  private getSourceDetails(file: TFile, metadata: NoteFrontmatter): SourceDetails & { titleChanged: boolean; topicsChanged: boolean } {
+    const details = this.sourceDetails.resolve(file, metadata.on_topics);
+    const recordedTopics = metadata.on_topics || [];
+
+    return {
+      ...details,
+      titleChanged: details.title !== (metadata.on_title ?? file.basename),
+      topicsChanged: details.topics.length !== recordedTopics.length || details.topics.some(topic => !recordedTopics.includes(topic))
+    };
+  }
 
-    // Update legacy mapping with new path
-    if (mapping) {
-      this.syncMappings.delete(oldPath);
-      mapping.filePath = file.path;
-      this.syncMappings.set(file.path, mapping);
-      await this.saveMappings();
-    }
+  /**
+   * Check if a note's title or topics differ from what its source was last sent
+   */
+  private sourceDetailsChanged(file: TFile, metadata: NoteFrontmatter): boolean {
+    const details = this.getSourceDetails(file, metadata);
+    return details.titleChanged || details.topicsChanged;
+  }
 
-    // Update source title in Open Notebook
-    try {
-      await this.client.updateSource(sourceId, {
-        title: file.basename
-      });
+  /**
+   * Metadata recording the title and topics a source was sent
+   */
+  private getDetailsMetadata(details: SourceDetails): Partial<NoteFrontmatter> {
+    return {
+      on_title: details.title,
+      on_topics: details.topics.length > 0 ? details.topics : undefined
+    };
+  }
 
-      // Update frontmatter with new modification time
-      await this.metadataManager.updateMetadata(file, {
-        on_modified_at: new Date(file.stat.mtime).toISOString()
-      });
+  /**
+   * Metadata recording the title and topics a new source was confirmed to have
+   * If stripping the create marker failed they weren't sent, so the next sync sends them again
+   */
+  private getCreatedDetailsMetadata(details: SourceDetails, source: APISource): Partial<NoteFrontmatter> {
+    if (source.title === details.title) {
+      return this.getDetailsMetadata(details);
+    }
+    return { on_title: source.title, on_topics: undefined };
+  }
 
-      // Refresh indicators
-      this.plugin.getSyncIndicatorManager()?.refreshAll();
+  /**
+   * Send a note's new title and topics to its source, keeping the source and its insights
+   */
+  private async updateSourceDetails(file: TFile, sourceId: string, details: SourceDetails): Promise<void> {
+    await this.client.updateSource(sourceId, { title: details.title, topics: details.topics });
+    await this.metadataManager.updateMetadata(file, {
+      ...this.getDetailsMetadata(details),
+      on_synced_at: new Date().toISOString(),
+      on_modified_at: new Date(file.stat.mtime).toISOString()
+    });
 
-      logger.info(`Updated source ${sourceId} title after rename`);
-    } catch (error) {
-      logger.error(`Failed to update source after rename`, error);
+    const mapping = this.syncMappings.get(file.path);
+    if (mapping) {
+      mapping.lastSynced = Date.now();
+      await this.saveMappings();
     }
   }
 
+  /**
+   * Describe which of a note's details changed
+   */
+  private describeDetailsChange(details: { titleChanged: boolean; topicsChanged: boolean }): string {
+    return details.titleChanged && details.topicsChanged ? 'Title and topics updated'
+      : details.titleChanged ? 'Title updated'
+      : 'Topics updated';
+  }
+
   /**
    * Get sync status for a file
    */
@@ -484,23 +2553,36 @@ export class ContentSyncManager {
    * Check for sync conflicts
    * Returns ConflictInfo if a conflict is detected, null otherwise
    */
-  public async checkForConflict(file: TFile, sourceId: string): Promise<ConflictInfo | null> {
+  public async checkForConflict(
+    file: TFile,
+    resourceId: string,
+    resourceType: 'source' | 'note' = 'source'
+  ): Promise<ConflictInfo | null> {
     try {
       // Get local content and metadata
       const localContent = await this.metadataManager.getBodyContent(file);
-      const localChecksum = await this.metadataManager.computeChecksum(file);
+      const { checksum: localChecksum } = await this.getUploadContent(file, resourceType);
       const metadata = await this.metadataManager.getMetadata(file);
 
-      // Get remote source
-      const remoteSource = await this.client.getSource(sourceId);
-      if (!remoteSource) {
-        logger.warn(`Remote source ${sourceId} not found`);
-        return null;
+      // Get remote source or note
+      let remoteContent: string;
+      let remoteUpdated: string | undefined;
+      if (resourceType === 'note') {
+        const remoteNote = await this.client.getNote(resourceId);
+        remoteContent = remoteNote?.content || '';
+        remoteUpdated = remoteNote?.updated;
+      } else {
+        const remoteSource = await this.client.getSource(resourceId);
+        if (!remoteSource) {
+          logger.warn(`Remote source ${resourceId} not found`);
+          return null;
+        }
+        remoteContent = remoteSource.full_text || '';
+        remoteUpdated = remoteSource.updated;
       }
 
       // Compute remote checksum
-      const remoteContent = remoteSource.full_text || '';
-      const remoteChecksum = this.metadataManager.computeChecksumFromContent(remoteContent);
+      const remoteChecksum = await this.metadataManager.computeChecksumFromContent(remoteContent);
 
       // Check if checksums differ
       const storedChecksum = metadata.on_checksum;
@@ -509,8 +2591,8 @@ export class ContentSyncManager {
       // 1. Local content differs from stored checksum (local changes)
       // 2. Remote content differs from stored checksum (remote changes)
       // 3. Local and remote differ from each other
-      const localChanged = storedChecksum && localChecksum !== storedChecksum;
-      const remoteChanged = storedChecksum && remoteChecksum !== storedChecksum;
+      const localChanged = storedChecksum && !this.metadataManager.checksumMatches(storedChecksum, localContent, localChecksum);
+      const remoteChanged = storedChecksum && !this.metadataManager.checksumMatches(storedChecksum, remoteContent, remoteChecksum);
       const contentsDiffer = localChecksum !== remoteChecksum;
 
       if (localChanged && remoteChanged && contentsDiffer) {
@@ -518,9 +2600,10 @@ export class ContentSyncManager {
         logger.warn(`Conflict detected for ${file.path}: both local and remote have changes`);
 
         return {
-          resourceType: 'source',
-          resourceId: sourceId,
+          resourceType,
+          resourceId,
           filePath: file.path,
+          baseContent: await this.snapshotStore.load(file.path) ?? undefined,
           localVersion: {
             content: localContent,
             modifiedAt: new Date(file.stat.mtime),
@@ -528,7 +2611,7 @@ export class ContentSyncManager {
           },
           remoteVersion: {
             content: remoteContent,
-            modifiedAt: remoteSource.updated ? new Date(remoteSource.updated) : new Date(),
+            modifiedAt: remoteUpdated ? new Date(remoteUpdated) : new Date(),
             checksum: remoteChecksum
           }
         };
@@ -551,44 +2634,167 @@ export class ContentSyncManager {
         throw new Error(`File not found: ${conflict.filePath}`);
       }
 
-      const folder = file.parent;
-      if (!folder) {
-        throw new Error(`File has no parent folder: ${conflict.filePath}`);
+      const notebookId = await this.resolveNotebookForFile(file);
+      if (!notebookId) {
+        throw new Error(`No notebook mapped for file: ${conflict.filePath}`);
       }
 
-      const notebookId = this.plugin.getNotebookManager().getNotebookForFolder(folder.path);
-      if (!notebookId) {
-        throw new Error(`No notebook mapped for folder: ${folder.path}`);
+      if (!keepLocal && !this.canApplyRemoteVersion(conflict)) {
+        throw new Error('the Open Notebook text of this source is preprocessed and would overwrite your markdown');
       }
 
       if (keepLocal) {
         // Keep local version - sync to remote
         logger.info(`Resolving conflict for ${conflict.filePath}: keeping local version`);
-        await this.syncFile(file, notebookId);
+        await this.syncFile(file, notebookId, { ignoreConflicts: true });
         NoticeHelper.success(`Kept local version: ${file.basename}`);
       } else {
         // Keep remote version - overwrite local
         logger.info(`Resolving conflict for ${conflict.filePath}: keeping remote version`);
+        await this.applyRemoteVersion(file, conflict);
+        NoticeHelper.success(`Kept remote version: ${file.basename}`);
+      }
 
-        // Update local file with remote content
-        await this.plugin.app.vault.modify(file, conflict.remoteVersion.content);
+      await this.plugin.getConflictQueue().remove(conflict.filePath);
+    } catch (error) {
+      logger.error(`Failed to resolve conflict`, error);
+      NoticeHelper.error(`Failed to resolve conflict: ${error.message || 'Unknown error'}`);
+      throw error;
+    }
+  }
 
-        // Update metadata
-        await this.metadataManager.updateMetadata(file, {
-          on_checksum: conflict.remoteVersion.checksum,
-          on_synced_at: new Date().toISOString(),
-          on_modified_at: conflict.remoteVersion.modifiedAt.toISOString()
-        });
+  /**
+   * Resolve a conflict with merged content: write it locally, then push it
+   */
+  public async resolveConflictWithMerge(conflict: ConflictInfo, mergedContent: string): Promise<void> {
+    try {
+      const file = this.plugin.app.vault.getAbstractFileByPath(conflict.filePath);
+      if (!file || !(file instanceof TFile)) {
+        throw new Error(`File not found: ${conflict.filePath}`);
+      }
 
-        NoticeHelper.success(`Kept remote version: ${file.basename}`);
+      const notebookId = await this.resolveNotebookForFile(file);
+      if (!notebookId) {
+        throw new Error(`No notebook mapped for file: ${conflict.filePath}`);
+      }
+
+      // The merge would mix preprocessed text into the note
+      if (!this.canApplyRemoteVersion(conflict)) {
+        throw new Error('the Open Notebook text of this source is preprocessed and would overwrite your markdown');
       }
+
+      logger.info(`Resolving conflict for ${conflict.filePath}: applying merged version`);
+      await this.metadataManager.replaceBodyContent(file, mergedContent, {});
+      await this.syncFile(file, notebookId, { ignoreConflicts: true });
+
+      await this.plugin.getConflictQueue().remove(conflict.filePath);
+      NoticeHelper.success(`Merged: ${file.basename}`);
     } catch (error) {
-      logger.error(`Failed to resolve conflict`, error);
-      NoticeHelper.error(`Failed to resolve conflict`);
+      logger.error(`Failed to apply merged version`, error);
+      NoticeHelper.error(`Failed to apply merged version: ${error.message || 'Unknown error'}`);
       throw error;
     }
   }
 
+  /**
+   * Check a locally changed file for remote changes and apply the conflict policy
+   * Returns true if the local version must not be pushed
+   */
+  private async handleRemoteConflict(
+    file: TFile,
+    resourceId: string,
+    resourceType: 'source' | 'note'
+  ): Promise<boolean> {
+    const conflict = await this.checkForConflict(file, resourceId, resourceType);
+    if (!conflict) {
+      return false;
+    }
+
+    const outcome = await this.applyConflictPolicy(conflict);
+    return outcome !== 'local';
+  }
+
+  /**
+   * Apply the configured conflict resolution policy
+   */
+  private async applyConflictPolicy(conflict: ConflictInfo): Promise<ConflictOutcome> {
+    const file = this.plugin.app.vault.getAbstractFileByPath(conflict.filePath);
+    const name = file instanceof TFile ? file.basename : conflict.filePath;
+
+    if (!this.canApplyRemoteVersion(conflict)) {
+      logger.info(`Conflict on ${conflict.filePath}: source text is preprocessed, keeping the Obsidian version`);
+      NoticeHelper.warn(`Sync conflict in ${name} - kept the Obsidian version, the Open Notebook text is preprocessed`);
+      this.recordConflict(conflict, 'Changed on both sides - kept the Obsidian version, the Open Notebook text is preprocessed');
+      return 'local';
+    }
+
+    switch (this.plugin.settings.conflictResolution) {
+      case ConflictResolution.SERVER_WINS:
+        if (!(file instanceof TFile)) {
+          return 'queued';
+        }
+        logger.info(`Conflict on ${conflict.filePath}: server wins`);
+        await this.applyRemoteVersion(file, conflict);
+        NoticeHelper.info(`Replaced with server version: ${name}`);
+        this.recordConflict(conflict, 'Changed on both sides - replaced with the Open Notebook version');
+        return 'remote';
+
+      case ConflictResolution.ASK_USER: {
+        // Only notify once per file - later edits just refresh the queued conflict
+        const alreadyQueued = this.plugin.getConflictQueue().has(conflict.filePath);
+        await this.plugin.getConflictQueue().add(conflict);
+        if (!alreadyQueued) {
+          NoticeHelper.warn(`Sync conflict in ${name} - run "Review Sync Conflicts" to resolve`);
+        }
+        this.recordConflict(conflict, 'Changed on both sides - waiting for review');
+        return 'queued';
+      }
+
+      case ConflictResolution.OBSIDIAN_WINS:
+      default:
+        logger.info(`Conflict on ${conflict.filePath}: Obsidian wins`);
+        this.recordConflict(conflict, 'Changed on both sides - kept the Obsidian version');
+        return 'local';
+    }
+  }
+
+  /**
+   * Whether a conflict's remote text can replace the note or be merged into it
+   * Preprocessed sources hold flattened links and embeds, and the snapshot holds the raw markdown
+   */
+  public canApplyRemoteVersion(conflict: ConflictInfo): boolean {
+    return conflict.resourceType !== 'source' || !this.plugin.settings.preprocessContent;
+  }
+
+  /**
+   * Overwrite a file's body with the remote version, keeping its frontmatter
+   */
+  private async applyRemoteVersion(file: TFile, conflict: ConflictInfo): Promise<void> {
+    await this.metadataManager.replaceBodyContent(file, conflict.remoteVersion.content, {
+      on_checksum: conflict.remoteVersion.checksum,
+      on_synced_at: new Date().toISOString(),
+      on_modified_at: new Date(conflict.remoteVersion.modifiedAt).toISOString()
+    });
+    await this.snapshotStore.save(file.path, conflict.remoteVersion.content.trim());
+  }
+
+  /**
+   * Store a snapshot for files synced before snapshots existed
+   * Only valid when the body matches the last-synced checksum
+   */
+  private async ensureSnapshot(file: TFile, bodyContent: string): Promise<void> {
+    if (!(await this.snapshotStore.has(file.path))) {
+      await this.snapshotStore.save(file.path, bodyContent);
+    }
+  }
+
+  /**
+   * Write sync metadata still waiting for the batched save (on unload)
+   */
+  public async flushMetadata(): Promise<void> {
+    await this.metadataManager.flush();
+  }
+
   /**
    * Clear all sync mappings
    */
@@ -598,6 +2804,43 @@ export class ContentSyncManager {
     logger.info('Cleared all sync mappings');
   }
 
+  /**
+   * Count the synced, pending, failed and conflicted files of a linked folder
+   * Files in subfolders linked to another notebook are counted there instead
+   */
+  public async getFolderStatus(folderPath: string, notebookId: string): Promise<FolderSyncStatus> {
+    const status: FolderSyncStatus = { folderPath, notebookId, total: 0, synced: 0, pending: 0, failed: 0, conflicted: 0 };
+    const folder = this.plugin.app.vault.getAbstractFileByPath(folderPath);
+    if (!(folder instanceof TFolder)) {
+      return status;
+    }
+
+    const notebookManager = this.plugin.getNotebookManager();
+    const files = this.getSyncableFilesInFolder(folder).filter(file =>
+      !file.parent || notebookManager.resolveFolderMapping(file.parent.path)?.folderPath === folderPath
+    );
+
+    for (const file of files) {
+      status.total++;
+
+      const metadata = this.isAttachment(file) ? {} as NoteFrontmatter : await this.metadataManager.getMetadata(file);
+      if (metadata.on_source_id || metadata.on_note_id || this.syncMappings.has(file.path)) {
+        status.synced++;
+      }
+      if (this.plugin.getSyncScheduler().isPending(file.path) || this.plugin.getOfflineQueue().hasOperation(file.path)) {
+        status.pending++;
+      }
+      if (this.plugin.getSyncJournal().getLatest(file.path)?.action === 'error') {
+        status.failed++;
+      }
+      if (this.plugin.getConflictQueue().has(file.path)) {
+        status.conflicted++;
+      }
+    }
+
+    return status;
+  }
+
   /**
    * Get all synced files
    */
@@ -623,8 +2866,9 @@ export class ContentSyncManager {
   /**
    * Verify and reconcile sync state on startup
    * Obsidian is the source of truth - if a file exists in Obsidian but not in Open Notebook, recreate it
+   * Each notebook's sources are listed once; only files changed on either side since their last sync are read
    */
-  public async verifySyncState(): Promise<{
+  public async verifySyncState(onProgress?: (done: number, total: number) => void): Promise<{
     verified: number;
     resynced: number;
     removed: number;
@@ -639,11 +2883,14 @@ export class ContentSyncManager {
       failed: 0
     };
 
-    // Get all synced files from mappings
-    const mappings = Array.from(this.syncMappings.entries());
+    await this.exclusionRules.reload();
+    await this.metadataManager.reconcileSidecar(this.plugin.app.vault.getMarkdownFiles());
+
+    // Group synced files by notebook, so each notebook's sources are fetched once
     const mappingsToRemove: string[] = [];
+    const byNotebook = new Map<string, Array<{ file: TFile; mapping: SyncMapping }>>();
 
-    for (const [filePath, mapping] of mappings) {
+    for (const [filePath, mapping] of Array.from(this.syncMappings.entries())) {
       try {
         // Check if file exists in Obsidian
         const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
@@ -656,60 +2903,26 @@ export class ContentSyncManager {
           continue;
         }
 
-        // Get notebook ID from file's folder
-        const folder = file.parent;
-        if (!folder) {
-          logger.warn(`File ${filePath} has no parent folder, skipping`);
-          mappingsToRemove.push(filePath);
-          results.failed++;
+        // Excluded files keep their link but aren't re-created
+        if (this.isExcluded(file)) {
+          logger.debug(`Skipping verification of excluded file ${filePath}`);
           continue;
         }
 
-        const notebookId = this.plugin.getNotebookManager().getNotebookForFolder(folder.path);
+        // Get notebook ID from file's folder, tag or property
+        // (embedded attachments fall back to the notebook they were uploaded to)
+        const notebookId = await this.resolveNotebookForFile(file) ||
+          (mapping.isAttachment ? mapping.notebookId : undefined);
         if (!notebookId) {
-          logger.warn(`No notebook mapped for folder ${folder.path}, removing mapping`);
+          logger.warn(`No notebook mapped for ${filePath}, removing mapping`);
           mappingsToRemove.push(filePath);
           results.removed++;
           continue;
         }
 
-        // File exists in Obsidian - verify it exists in Open Notebook
-        try {
-          await this.plugin.getAPIClient().getSource(mapping.sourceId);
-          results.verified++;
-          logger.debug(`Source ${mapping.sourceId} verified for ${filePath}`);
-        } catch (error) {
-          // Source doesn't exist in Open Notebook - check if another source with same title exists
-          logger.info(`Source ${mapping.sourceId} not found, checking for duplicates by title`);
-
-          try {
-            const allSources = await this.plugin.getAPIClient().getSources(notebookId);
-            logger.debug(`Searching ${allSources.length} sources for title matching: "${file.basename}"`);
-
-            // Log all source titles for debugging
-            allSources.forEach(s => logger.debug(`  Available source: "${s.title}" (${s.id})`));
-
-            const matchingSource = allSources.find(s => s.title === file.basename);
-
-            if (matchingSource) {
-              // Found a source with matching title - update mapping instead of creating duplicate
-              logger.info(`Found existing source ${matchingSource.id} for ${filePath}, updating mapping`);
-              mapping.sourceId = matchingSource.id;
-              mapping.lastSynced = Date.now();
-              results.verified++;
-              // Will save mappings at the end
-            } else {
-              // No matching source found - resync from Obsidian
-              logger.warn(`No matching source found for "${file.basename}" among ${allSources.length} sources, resyncing ${filePath}`);
-              await this.syncFile(file, notebookId);
-              results.resynced++;
-              logger.info(`Resynced ${filePath} to Open Notebook`);
-            }
-          } catch (syncError) {
-            logger.error(`Failed to handle missing source for ${filePath}`, syncError);
-            results.failed++;
-          }
-        }
+        const entries = byNotebook.get(notebookId) || [];
+        entries.push({ file, mapping });
+        byNotebook.set(notebookId, entries);
       } catch (error) {
         logger.error(`Error verifying ${filePath}`, error);
         results.failed++;
@@ -721,8 +2934,51 @@ export class ContentSyncManager {
       this.syncMappings.delete(filePath);
     }
 
+    const total = Array.from(byNotebook.values()).reduce((sum, entries) => sum + entries.length, 0);
+    let done = 0;
+    let mappingsChanged = mappingsToRemove.length > 0;
+    onProgress?.(done, total);
+
+    // Sources claimed by a mapping can't be matched to another file by title
+    const claimedIds = new Set(Array.from(this.syncMappings.values()).map(mapping => mapping.sourceId));
+
+    for (const [notebookId, entries] of Array.from(byNotebook.entries())) {
+      let index: SourceIndex;
+      try {
+        index = this.indexSources(await this.client.getSources(notebookId));
+        logger.debug(`Verifying ${entries.length} files against ${index.byId.size} sources in notebook ${notebookId}`);
+      } catch (error) {
+        // Server unreachable or notebook gone - can't tell whether its sources still exist
+        logger.warn(`Could not list sources of notebook ${notebookId}, skipping ${entries.length} files`, error);
+        results.failed += entries.length;
+        done += entries.length;
+        onProgress?.(done, total);
+        continue;
+      }
+
+      for (const { file, mapping } of entries) {
+        try {
+          const outcome = await this.verifyMapping(file, mapping, notebookId, index, claimedIds);
+          if (outcome === 'resynced') {
+            results.resynced++;
+          } else {
+            results.verified++;
+          }
+          mappingsChanged = mappingsChanged || outcome !== 'verified';
+        } catch (error) {
+          logger.error(`Failed to verify ${file.path}`, error);
+          results.failed++;
+        }
+
+        done++;
+        if (done % VERIFY_PROGRESS_STEP === 0 || done === total) {
+          onProgress?.(done, total);
+        }
+      }
+    }
+
     // Save mappings if anything changed
-    if (mappingsToRemove.length > 0 || results.verified > 0 || results.resynced > 0) {
+    if (mappingsChanged) {
       await this.saveMappings();
     }
 
@@ -733,4 +2989,90 @@ export class ContentSyncManager {
 
     return results;
   }
+
+  /**
+   * Check one synced file against its notebook's sources
+   * Files and sources unchanged since the last sync are verified without reading either
+   */
+  private async verifyMapping(
+    file: TFile,
+    mapping: SyncMapping,
+    notebookId: string,
+    index: SourceIndex,
+    claimedIds: Set<string>
+  ): Promise<'verified' | 'relinked' | 'touched' | 'resynced'> {
+    const source = index.byId.get(mapping.sourceId);
+
+    if (!source) {
+      // Source doesn't exist in Open Notebook - check if another source with same title exists
+      const title = this.getSourceTitle(file);
+      const match = (index.byTitle.get(title) || []).find(candidate => !claimedIds.has(candidate.id));
+
+      if (match) {
+        // Found a source with matching title - update mapping instead of creating duplicate
+        logger.info(`Found existing source ${match.id} for ${file.path}, updating mapping`);
+        claimedIds.add(match.id);
+        mapping.sourceId = match.id;
+        mapping.lastSynced = Date.now();
+        return 'relinked';
+      }
+
+      // No matching source found - unlink so a fresh source is created from Obsidian
+      logger.warn(`No source found for "${title}", resyncing ${file.path}`);
+      await this.unlinkFile(file);
+      await this.syncFile(file, notebookId);
+      logger.info(`Resynced ${file.path} to Open Notebook`);
+      return 'resynced';
+    }
+
+    const remoteUpdated = Date.parse(source.updated);
+    const localNewer = file.stat.mtime > mapping.lastSynced;
+    const remoteNewer = !isNaN(remoteUpdated) && remoteUpdated > mapping.lastSynced;
+    if (!localNewer && !remoteNewer) {
+      return 'verified';
+    }
+
+    // Edited while Obsidian was closed - syncing pushes it and applies the conflict policy
+    if (await this.hasUnsyncedChanges(file, mapping)) {
+      logger.info(`${file.path} changed since its last sync, resyncing`);
+      await this.syncFile(file, notebookId);
+      return 'resynced';
+    }
+
+    // Only timestamps moved (a save without changes, or server-side processing) - don't look again next time
+    mapping.lastSynced = Math.max(file.stat.mtime, isNaN(remoteUpdated) ? 0 : remoteUpdated);
+    return 'touched';
+  }
+
+  /**
+   * Check if a file's content differs from what was last synced
+   */
+  private async hasUnsyncedChanges(file: TFile, mapping: SyncMapping): Promise<boolean> {
+    if (this.isAttachment(file)) {
+      const data = await this.plugin.app.vault.readBinary(file);
+      const checksum = await this.metadataManager.computeChecksumFromBinary(data);
+      return !this.metadataManager.binaryChecksumMatches(mapping.hash, data, checksum);
+    }
+
+    const metadata = await this.metadataManager.getMetadata(file);
+    const { body, checksum } = await this.getUploadContent(file, 'source');
+    return !this.metadataManager.checksumMatches(metadata.on_checksum || mapping.hash, body, checksum) ||
+      this.sourceDetailsChanged(file, metadata);
+  }
+
+  /**
+   * Index a notebook's sources by ID and by title
+   */
+  private indexSources(sources: APISource[]): SourceIndex {
+    const index: SourceIndex = { byId: new Map(), byTitle: new Map() };
+    for (const source of sources) {
+      index.byId.set(source.id, source);
+      if (source.title) {
+        const sameTitle = index.byTitle.get(source.title) || [];
+        sameTitle.push(source);
+        index.byTitle.set(source.title, sameTitle);
+      }
+    }
+    return index;
+  }
 }
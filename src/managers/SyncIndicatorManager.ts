@@ -1,5 +1,5 @@
 // Visual indicators for synced files
-import { TFile, WorkspaceLeaf } from 'obsidian';
+import { TFile, TFolder, WorkspaceLeaf } from 'obsidian';
 import OpenNotebookPlugin from '../main';
 import { logger } from '../utils/Logger';
 
@@ -58,31 +58,38 @@ export class SyncIndicatorManager {
 
     const activeFile = this.plugin.app.workspace.getActiveFile();
 
-    // Clear status bar if no file or not a markdown file
-    if (!activeFile || activeFile.extension !== 'md') {
+    // Clear status bar if no file or not a syncable file (markdown or attachment)
+    if (!activeFile || !this.plugin.getContentSyncManager().isSyncableFile(activeFile)) {
       this.statusBarItem.empty();
       return;
     }
 
-    // Check if file has a parent folder
-    const folder = activeFile.parent;
-    if (!folder) {
+    // Check if the file is linked to a notebook (folder, tag, property or an embedding note)
+    const notebookManager = this.plugin.getNotebookManager();
+    const notebookId = notebookManager.getNotebookForFile(activeFile) ||
+      notebookManager.getNotebookNameForFile(activeFile) ||
+      this.plugin.getContentSyncManager().getSyncStatus(activeFile.path)?.notebookId;
+    if (!notebookId) {
+      // Not linked - don't show anything
       this.statusBarItem.empty();
       return;
     }
 
-    // Check if folder is linked to a notebook
-    const notebookId = this.plugin.getNotebookManager().getNotebookForFolder(folder.path);
-    if (!notebookId) {
-      // Folder not linked - don't show anything
+    // Linked, but left out by an exclusion rule
+    const exclusionRule = this.plugin.getContentSyncManager().getExclusionRule(activeFile);
+    if (exclusionRule) {
       this.statusBarItem.empty();
+      const container = this.statusBarItem.createSpan({ cls: 'on-sync-status-unsynced' });
+      container.createSpan({ cls: 'on-sync-icon', text: '⊘' });
+      container.createSpan({ cls: 'on-sync-text', text: 'Excluded' });
+      this.statusBarItem.setAttribute('aria-label', `Excluded from sync by "${exclusionRule.text}" (${exclusionRule.source})`);
       return;
     }
 
     // Folder is linked - check sync status from frontmatter and legacy mapping
     const metadata = await this.plugin.getContentSyncManager().getSyncMetadata(activeFile);
     const syncStatus = this.plugin.getContentSyncManager().getSyncStatus(activeFile.path);
-    const isSynced = !!(metadata.on_source_id || syncStatus);
+    const isSynced = !!(metadata.on_source_id || metadata.on_note_id || syncStatus);
 
     this.statusBarItem.empty();
 
@@ -173,7 +180,7 @@ export class SyncIndicatorManager {
       const fileItem = item as HTMLElement;
       const filePath = fileItem.getAttribute('data-path');
 
-      if (!filePath || !filePath.endsWith('.md')) continue;
+      if (!filePath) continue;
 
       // Get the title element
       const titleEl = fileItem.querySelector('.tree-item-inner');
@@ -191,12 +198,29 @@ export class SyncIndicatorManager {
 
       // Get file from vault to check frontmatter
       const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+      if (file instanceof TFolder) {
+        this.addFolderIndicator(file, titleEl);
+        continue;
+      }
       if (!file || !(file instanceof TFile)) continue;
+      if (!this.plugin.getContentSyncManager().isSyncableFile(file)) continue;
+
+      const exclusionRule = this.plugin.getContentSyncManager().getExclusionRule(file);
+      if (exclusionRule) {
+        const indicator = document.createElement('span');
+        indicator.addClass('on-sync-indicator');
+        indicator.addClass('on-excluded');
+        indicator.innerHTML = '⊘ ';
+        indicator.setAttribute('aria-label', `Excluded from sync by "${exclusionRule.text}" (${exclusionRule.source})`);
+        indicator.style.cssText = 'color: var(--text-faint); margin-right: 4px; font-size: 0.9em; display: inline-block;';
+        titleEl.insertBefore(indicator, titleEl.firstChild);
+        continue;
+      }
 
       // Check if file is synced (from frontmatter or legacy mapping)
       const metadata = await this.plugin.getContentSyncManager().getSyncMetadata(file);
       const syncStatus = this.plugin.getContentSyncManager().getSyncStatus(filePath);
-      const isSynced = !!(metadata.on_source_id || syncStatus);
+      const isSynced = !!(metadata.on_source_id || metadata.on_note_id || syncStatus);
 
       if (isSynced) {
         console.log(`[Sync Indicators] Adding indicator for synced file: ${filePath}`);
@@ -207,7 +231,10 @@ export class SyncIndicatorManager {
         indicator.addClass('on-sync-indicator');
         indicator.addClass('on-synced');
         indicator.innerHTML = '✓ ';
-        indicator.setAttribute('aria-label', 'Synced to Open Notebook');
+        const mapping = file.parent ? this.plugin.getNotebookManager().resolveFolderMapping(file.parent.path) : undefined;
+        indicator.setAttribute('aria-label', mapping?.inherited
+          ? `Synced to Open Notebook (linked through ${mapping.folderPath})`
+          : 'Synced to Open Notebook');
         indicator.style.cssText = 'color: #22c55e; margin-right: 4px; font-size: 1em; font-weight: bold; display: inline-block;';
 
         // Insert at the beginning of the title element
@@ -220,6 +247,38 @@ export class SyncIndicatorManager {
     }
   }
 
+  /**
+   * Mark a folder as linked, inheriting its parent's notebook, or excluded from it
+   */
+  private addFolderIndicator(folder: TFolder, titleEl: Element): void {
+    const notebookManager = this.plugin.getNotebookManager();
+    const mapping = notebookManager.resolveFolderMapping(folder.path);
+
+    let symbol: string;
+    let label: string;
+    if (mapping && !mapping.inherited) {
+      symbol = '🔗 ';
+      label = 'Linked to Open Notebook';
+    } else if (mapping) {
+      symbol = '↳ ';
+      label = `Inherits the Open Notebook link of ${mapping.folderPath}`;
+    } else if (notebookManager.isExcludedSubfolder(folder.path)) {
+      symbol = '⊘ ';
+      label = 'Excluded from its parent folder\'s notebook';
+    } else {
+      return;
+    }
+
+    const indicator = document.createElement('span');
+    indicator.addClass('on-sync-indicator');
+    indicator.addClass('on-folder-link');
+    indicator.innerHTML = symbol;
+    indicator.setAttribute('aria-label', label);
+    indicator.style.cssText = 'color: var(--text-muted); margin-right: 4px; font-size: 0.9em; display: inline-block;';
+
+    titleEl.insertBefore(indicator, titleEl.firstChild);
+  }
+
   /**
    * Refresh all indicators
    */
@@ -0,0 +1,258 @@
+// Sync scheduler that decides when modified files are synced, based on the sync mode
+import { TFile } from 'obsidian';
+import OpenNotebookPlugin from '../main';
+import { SyncMode } from '../types/settings';
+import { logger } from '../utils/Logger';
+
+export class SyncScheduler {
+  private plugin: OpenNotebookPlugin;
+  private pendingPaths: Set<string>;
+  private debounceTimers: Map<string, number> = new Map();
+  private flushInterval: number | null = null;
+  private running: Promise<{ synced: number; failed: number }> | null = null;
+
+  constructor(plugin: OpenNotebookPlugin) {
+    this.plugin = plugin;
+
+    // Dirty files survive restarts, so manual mode never loses pending changes
+    this.pendingPaths = new Set(plugin.settings.pendingSyncPaths || []);
+  }
+
+  /**
+   * Start the timer for the configured sync mode
+   */
+  public start(): void {
+    const { syncMode, syncIntervalMinutes } = this.plugin.settings;
+
+    if (syncMode === SyncMode.INTERVAL) {
+      const intervalMs = Math.max(1, syncIntervalMinutes) * 60 * 1000;
+      this.flushInterval = window.setInterval(() => {
+        this.flush().catch(error => logger.error('Interval sync failed', error));
+      }, intervalMs);
+      logger.info(`Interval sync started (every ${syncIntervalMinutes} min)`);
+    }
+
+    // Switching to realtime shouldn't strand files marked dirty in another mode
+    if (syncMode === SyncMode.REALTIME && this.pendingPaths.size > 0) {
+      this.plugin.app.workspace.onLayoutReady(() => {
+        this.flush().catch(error => logger.error('Failed to sync pending files', error));
+      });
+    }
+  }
+
+  /**
+   * Apply changed sync mode or interval settings
+   */
+  public restart(): void {
+    this.stopInterval();
+    this.start();
+  }
+
+  /**
+   * Schedule a modified file for sync according to the sync mode
+   * Without auto-sync on save, files are only marked pending for an explicit sync
+   */
+  public scheduleSync(file: TFile): void {
+    switch (this.plugin.settings.syncMode) {
+      case SyncMode.REALTIME:
+        if (this.plugin.settings.autoSyncOnSave) {
+          this.debounce(file);
+        }
+        break;
+      case SyncMode.INTERVAL:
+      case SyncMode.MANUAL:
+        this.markDirty(file.path).catch(error => logger.error(`Failed to mark ${file.path} as pending sync`, error));
+        break;
+    }
+  }
+
+  /**
+   * Sync all pending files now
+   * Pass force to sync even when auto-sync on save is off (explicit user request)
+   * A call while a flush is running waits for it, then syncs what's still pending
+   */
+  public async flush(force: boolean = false): Promise<{ synced: number; failed: number }> {
+    if (this.running) {
+      const joined = await this.running;
+      if (this.pendingPaths.size === 0) {
+        return joined;
+      }
+      const next = await this.flush(force);
+      return { synced: joined.synced + next.synced, failed: next.failed };
+    }
+
+    // Timed flushes leave files pending until an explicit sync when auto-sync is off
+    if (this.pendingPaths.size === 0 || (!force && !this.plugin.settings.autoSyncOnSave)) {
+      return { synced: 0, failed: 0 };
+    }
+
+    this.running = this.syncPending(force);
+    try {
+      return await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  /**
+   * Sync every pending file, keeping the ones that fail pending
+   */
+  private async syncPending(force: boolean): Promise<{ synced: number; failed: number }> {
+    const results = { synced: 0, failed: 0 };
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+
+    logger.info(`Syncing ${paths.length} pending file${paths.length === 1 ? '' : 's'}`);
+
+    try {
+      for (const path of paths) {
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+          continue;
+        }
+
+        let synced = false;
+        try {
+          synced = await this.plugin.getContentSyncManager().onFileModified(file, {
+            force,
+            notify: false
+          });
+        } catch (error) {
+          logger.error(`Failed to sync pending file ${path}`, error);
+        }
+
+        if (synced) {
+          results.synced++;
+        } else {
+          // Keep failed files dirty so the next flush retries them
+          this.pendingPaths.add(path);
+          results.failed++;
+        }
+      }
+    } finally {
+      await this.savePending();
+    }
+
+    if (results.synced > 0) {
+      this.plugin.settings.lastSyncTimestamp = Date.now();
+      await this.plugin.saveSettings();
+    }
+
+    logger.info(`Pending sync complete: ${results.synced} synced, ${results.failed} failed`);
+    return results;
+  }
+
+  /**
+   * Get the number of files waiting to be synced
+   */
+  public getPendingCount(): number {
+    return this.pendingPaths.size;
+  }
+
+  /**
+   * Check if a file is waiting to be synced (debouncing or marked pending)
+   */
+  public isPending(path: string): boolean {
+    return this.pendingPaths.has(path) || this.debounceTimers.has(path);
+  }
+
+  /**
+   * Forget a deleted file
+   */
+  public async cancel(path: string): Promise<void> {
+    this.clearDebounce(path);
+
+    if (this.pendingPaths.delete(path)) {
+      await this.savePending();
+    }
+  }
+
+  /**
+   * Follow a renamed file
+   */
+  public async renamePath(oldPath: string, newPath: string): Promise<void> {
+    const timer = this.debounceTimers.get(oldPath);
+    if (timer !== undefined) {
+      this.debounceTimers.delete(oldPath);
+      this.debounceTimers.set(newPath, timer);
+    }
+
+    if (this.pendingPaths.delete(oldPath)) {
+      this.pendingPaths.add(newPath);
+      await this.savePending();
+    }
+  }
+
+  /**
+   * Stop timers, keeping debounced files as pending for the next session
+   */
+  public async destroy(): Promise<void> {
+    this.stopInterval();
+
+    for (const [path, timer] of this.debounceTimers) {
+      window.clearTimeout(timer);
+      this.pendingPaths.add(path);
+    }
+    this.debounceTimers.clear();
+
+    await this.savePending();
+  }
+
+  /**
+   * Restart the per-file debounce timer
+   */
+  private debounce(file: TFile): void {
+    this.clearDebounce(file.path);
+
+    const timer = window.setTimeout(() => {
+      // TFile paths follow renames, so look the timer up by the current path
+      this.debounceTimers.delete(file.path);
+      this.plugin.getContentSyncManager().onFileModified(file)
+        .catch(error => logger.error(`Failed to sync ${file.path}`, error));
+    }, this.plugin.settings.syncDebounceMs);
+
+    this.debounceTimers.set(file.path, timer);
+  }
+
+  /**
+   * Cancel a pending debounce timer
+   */
+  private clearDebounce(path: string): void {
+    const timer = this.debounceTimers.get(path);
+    if (timer !== undefined) {
+      window.clearTimeout(timer);
+      this.debounceTimers.delete(path);
+    }
+  }
+
+  /**
+   * Mark a file as needing sync
+   */
+  private async markDirty(path: string): Promise<void> {
+    if (this.pendingPaths.has(path)) {
+      return;
+    }
+
+    this.pendingPaths.add(path);
+    logger.debug(`Marked ${path} as pending sync`);
+    await this.savePending();
+  }
+
+  /**
+   * Stop the interval timer
+   */
+  private stopInterval(): void {
+    if (this.flushInterval) {
+      window.clearInterval(this.flushInterval);
+      this.flushInterval = null;
+    }
+  }
+
+  /**
+   * Persist pending files to settings
+   */
+  private async savePending(): Promise<void> {
+    this.plugin.settings.pendingSyncPaths = Array.from(this.pendingPaths);
+    await this.plugin.saveSettings();
+  }
+}
@@ -1,18 +1,27 @@
 // Modal for resolving sync conflicts between local and remote versions
-import { App, Modal, Setting } from 'obsidian';
+import { App, Modal } from 'obsidian';
 import { ConflictInfo } from '../types/sync';
+import { MergeChunk, MergeHelper } from '../utils/MergeHelper';
 import { logger } from '../utils/Logger';
 
-export type ConflictResolutionChoice = 'local' | 'remote' | 'cancel';
+export type ConflictResolutionChoice = 'local' | 'remote' | 'merge' | 'cancel';
+
+// Per-hunk decision: one-sided changes are accepted or rejected, conflicts pick a side
+type HunkDecision = 'accept' | 'reject' | 'local' | 'remote' | 'both' | 'base';
+
+// Unchanged runs longer than this are collapsed around a few context lines
+const STABLE_CONTEXT_LINES = 3;
 
 export class ConflictModal extends Modal {
   private conflict: ConflictInfo;
-  private onResolve: (choice: ConflictResolutionChoice) => void;
+  private onResolve: (choice: ConflictResolutionChoice, mergedContent?: string) => void;
+  private chunks: MergeChunk[] = [];
+  private decisions: Map<number, HunkDecision> = new Map();
 
   constructor(
     app: App,
     conflict: ConflictInfo,
-    onResolve: (choice: ConflictResolutionChoice) => void
+    onResolve: (choice: ConflictResolutionChoice, mergedContent?: string) => void
   ) {
     super(app);
     this.conflict = conflict;
@@ -20,10 +29,23 @@ export class ConflictModal extends Modal {
   }
 
   onOpen(): void {
-    const { contentEl } = this;
+    const { contentEl, modalEl } = this;
     contentEl.empty();
     contentEl.addClass('open-notebook-conflict-modal');
 
+    // Make modal wider for the diff
+    if (modalEl) {
+      modalEl.style.width = '90vw';
+      modalEl.style.maxWidth = '1100px';
+    }
+
+    this.chunks = MergeHelper.merge(
+      this.conflict.baseContent ?? null,
+      this.conflict.localVersion.content,
+      this.conflict.remoteVersion.content
+    );
+    this.initializeDecisions();
+
     // Title
     contentEl.createEl('h2', { text: 'Sync Conflict Detected' });
 
@@ -32,45 +54,40 @@ export class ConflictModal extends Modal {
     descEl.createEl('p', {
       text: `Both the local and remote versions of "${this.getFileName()}" have been modified.`
     });
-    descEl.createEl('p', {
-      text: 'Please choose which version to keep:'
-    });
-
-    // Conflict details
-    const detailsEl = contentEl.createDiv({ cls: 'conflict-details' });
+    descEl.createEl('p', { text: this.getSummary() });
 
-    // Local version
-    const localSection = detailsEl.createDiv({ cls: 'conflict-version' });
-    localSection.createEl('h3', { text: '📝 Local Version (Obsidian)' });
-
-    const localMeta = localSection.createDiv({ cls: 'conflict-metadata' });
-    localMeta.createEl('div', {
-      text: `Modified: ${this.formatDate(this.conflict.localVersion.modifiedAt)}`
+    // Version details
+    const metaEl = contentEl.createDiv({ cls: 'conflict-metadata' });
+    metaEl.createEl('div', {
+      text: `📝 Local (Obsidian) modified: ${this.formatDate(this.conflict.localVersion.modifiedAt)}`
     });
-
-    const localPreview = localSection.createDiv({ cls: 'conflict-preview' });
-    const localContent = localPreview.createEl('pre');
-    localContent.setText(this.truncateContent(this.conflict.localVersion.content));
-
-    // Remote version
-    const remoteSection = detailsEl.createDiv({ cls: 'conflict-version' });
-    remoteSection.createEl('h3', { text: '☁️ Remote Version (Open Notebook)' });
-
-    const remoteMeta = remoteSection.createDiv({ cls: 'conflict-metadata' });
-    remoteMeta.createEl('div', {
-      text: `Modified: ${this.formatDate(this.conflict.remoteVersion.modifiedAt)}`
+    metaEl.createEl('div', {
+      text: `☁️ Remote (Open Notebook) modified: ${this.formatDate(this.conflict.remoteVersion.modifiedAt)}`
     });
 
-    const remotePreview = remoteSection.createDiv({ cls: 'conflict-preview' });
-    const remoteContent = remotePreview.createEl('pre');
-    remoteContent.setText(this.truncateContent(this.conflict.remoteVersion.content));
+    // Merge view
+    const mergeEl = contentEl.createDiv({ cls: 'conflict-merge-view' });
+    this.chunks.forEach((chunk, index) => {
+      const chunkEl = mergeEl.createDiv();
+      this.renderChunk(chunkEl, chunk, index);
+    });
 
     // Buttons
     const buttonsEl = contentEl.createDiv({ cls: 'conflict-buttons' });
 
+    // Apply merge button
+    const mergeBtn = buttonsEl.createEl('button', {
+      cls: 'mod-cta',
+      text: 'Apply Merge'
+    });
+    mergeBtn.addEventListener('click', () => {
+      logger.info('User applied merged version');
+      this.onResolve('merge', this.buildMergedContent());
+      this.close();
+    });
+
     // Keep local button
     const localBtn = buttonsEl.createEl('button', {
-      cls: 'mod-cta',
       text: 'Keep Local Version'
     });
     localBtn.addEventListener('click', () => {
@@ -103,7 +120,7 @@ export class ConflictModal extends Modal {
     // Warning message
     const warningEl = contentEl.createDiv({ cls: 'conflict-warning' });
     warningEl.createEl('p', {
-      text: '⚠️ The version you don\'t choose will be lost. Consider backing up important changes before proceeding.'
+      text: '⚠️ Keeping one version discards the other. Rejected changes are discarded when the merge is applied.'
     });
   }
 
@@ -112,6 +129,183 @@ export class ConflictModal extends Modal {
     contentEl.empty();
   }
 
+  /**
+   * Default decisions: take every one-sided change, prefer local in conflicts
+   */
+  private initializeDecisions(): void {
+    this.decisions.clear();
+    this.chunks.forEach((chunk, index) => {
+      if (chunk.type === 'change') {
+        this.decisions.set(index, 'accept');
+      } else if (chunk.type === 'conflict') {
+        this.decisions.set(index, 'local');
+      }
+    });
+  }
+
+  /**
+   * Describe how much was merged automatically
+   */
+  private getSummary(): string {
+    const changes = this.chunks.filter(c => c.type === 'change').length;
+    const conflicts = this.chunks.filter(c => c.type === 'conflict').length;
+
+    if (this.conflict.baseContent === undefined) {
+      return `No copy of the last synced version is stored, so each of the ${conflicts} difference${conflicts === 1 ? '' : 's'} needs a decision.`;
+    }
+
+    return `${changes} change${changes === 1 ? '' : 's'} merged automatically, ${conflicts} conflict${conflicts === 1 ? '' : 's'} need${conflicts === 1 ? 's' : ''} a decision.`;
+  }
+
+  /**
+   * Render a chunk, re-rendering in place when its decision changes
+   */
+  private renderChunk(chunkEl: HTMLElement, chunk: MergeChunk, index: number): void {
+    chunkEl.empty();
+
+    if (chunk.type === 'stable') {
+      this.renderStableChunk(chunkEl, chunk.lines);
+    } else if (chunk.type === 'change') {
+      this.renderChangeChunk(chunkEl, chunk, index);
+    } else {
+      this.renderConflictChunk(chunkEl, chunk, index);
+    }
+  }
+
+  /**
+   * Render unchanged lines, collapsing long runs
+   */
+  private renderStableChunk(chunkEl: HTMLElement, lines: string[]): void {
+    chunkEl.addClass('merge-stable');
+
+    if (lines.length <= STABLE_CONTEXT_LINES * 2) {
+      this.renderLines(chunkEl, lines, 'merge-line-context', ' ');
+      return;
+    }
+
+    this.renderLines(chunkEl, lines.slice(0, STABLE_CONTEXT_LINES), 'merge-line-context', ' ');
+    chunkEl.createDiv({
+      cls: 'merge-collapsed',
+      text: `⋯ ${lines.length - STABLE_CONTEXT_LINES * 2} unchanged lines`
+    });
+    this.renderLines(chunkEl, lines.slice(-STABLE_CONTEXT_LINES), 'merge-line-context', ' ');
+  }
+
+  /**
+   * Render a change made on one side (or identically on both) with accept/reject
+   */
+  private renderChangeChunk(
+    chunkEl: HTMLElement,
+    chunk: Extract<MergeChunk, { type: 'change' }>,
+    index: number
+  ): void {
+    const accepted = this.decisions.get(index) === 'accept';
+    chunkEl.addClass('merge-hunk');
+    chunkEl.toggleClass('is-rejected', !accepted);
+
+    const label = chunk.side === 'local' ? 'Changed in Obsidian'
+                : chunk.side === 'remote' ? 'Changed in Open Notebook'
+                : 'Same change on both sides';
+
+    const headerEl = chunkEl.createDiv({ cls: 'merge-hunk-header' });
+    headerEl.createSpan({ text: label });
+
+    const toggleBtn = headerEl.createEl('button', {
+      text: accepted ? 'Reject' : 'Accept'
+    });
+    toggleBtn.addEventListener('click', () => {
+      this.decisions.set(index, accepted ? 'reject' : 'accept');
+      this.renderChunk(chunkEl, chunk, index);
+    });
+
+    const diffEl = chunkEl.createDiv({ cls: 'merge-diff' });
+    this.renderLines(diffEl, chunk.base, 'merge-line-removed', '-');
+    this.renderLines(diffEl, chunk.lines, 'merge-line-added', '+');
+  }
+
+  /**
+   * Render a conflicting hunk side by side with a choice of version
+   */
+  private renderConflictChunk(
+    chunkEl: HTMLElement,
+    chunk: Extract<MergeChunk, { type: 'conflict' }>,
+    index: number
+  ): void {
+    const decision = this.decisions.get(index);
+    chunkEl.addClass('merge-hunk');
+    chunkEl.addClass('merge-hunk-conflict');
+
+    const headerEl = chunkEl.createDiv({ cls: 'merge-hunk-header' });
+    headerEl.createSpan({ text: 'Conflict' });
+
+    const choicesEl = headerEl.createDiv({ cls: 'merge-hunk-choices' });
+    const choices: Array<[HunkDecision, string]> = [
+      ['local', 'Use Local'],
+      ['remote', 'Use Remote'],
+      ['both', 'Use Both']
+    ];
+    if (this.conflict.baseContent !== undefined) {
+      choices.push(['base', 'Use Original']);
+    }
+
+    for (const [value, text] of choices) {
+      const btn = choicesEl.createEl('button', { text });
+      if (decision === value) {
+        btn.addClass('mod-cta');
+      }
+      btn.addEventListener('click', () => {
+        this.decisions.set(index, value);
+        this.renderChunk(chunkEl, chunk, index);
+      });
+    }
+
+    const sidesEl = chunkEl.createDiv({ cls: 'merge-sides' });
+
+    const localEl = sidesEl.createDiv({ cls: 'merge-side' });
+    localEl.createDiv({ cls: 'merge-side-title', text: '📝 Local' });
+    this.renderLines(localEl, chunk.local, 'merge-line-local', ' ');
+
+    const remoteEl = sidesEl.createDiv({ cls: 'merge-side' });
+    remoteEl.createDiv({ cls: 'merge-side-title', text: '☁️ Remote' });
+    this.renderLines(remoteEl, chunk.remote, 'merge-line-remote', ' ');
+  }
+
+  /**
+   * Render lines with a diff marker
+   */
+  private renderLines(containerEl: HTMLElement, lines: string[], cls: string, marker: string): void {
+    for (const line of lines) {
+      containerEl.createDiv({ cls: `merge-line ${cls}`, text: `${marker} ${line}` });
+    }
+  }
+
+  /**
+   * Assemble the merged text from the per-hunk decisions
+   */
+  private buildMergedContent(): string {
+    const lines: string[] = [];
+
+    this.chunks.forEach((chunk, index) => {
+      const decision = this.decisions.get(index);
+
+      if (chunk.type === 'stable') {
+        lines.push(...chunk.lines);
+      } else if (chunk.type === 'change') {
+        lines.push(...(decision === 'accept' ? chunk.lines : chunk.base));
+      } else if (decision === 'remote') {
+        lines.push(...chunk.remote);
+      } else if (decision === 'both') {
+        lines.push(...chunk.local, ...chunk.remote);
+      } else if (decision === 'base') {
+        lines.push(...chunk.base);
+      } else {
+        lines.push(...chunk.local);
+      }
+    });
+
+    return MergeHelper.joinLines(lines);
+  }
+
   /**
    * Get file name from path
    */
@@ -126,15 +320,4 @@ export class ConflictModal extends Modal {
   private formatDate(date: Date): string {
     return new Date(date).toLocaleString();
   }
-
-  /**
-   * Truncate content for preview
-   */
-  private truncateContent(content: string, maxLines: number = 20): string {
-    const lines = content.split('\n');
-    if (lines.length <= maxLines) {
-      return content;
-    }
-    return lines.slice(0, maxLines).join('\n') + '\n\n... (truncated)';
-  }
 }
@@ -0,0 +1,101 @@
+// Modal for importing a notebook into a vault folder
+import { App, Modal, Setting, TextComponent } from 'obsidian';
+import { Notebook } from '../types/notebook';
+
+export class ImportNotebookModal extends Modal {
+  private notebooks: Notebook[];
+  private selectedNotebookId: string | null = null;
+  private folderPath: string = '';
+  private onSubmit: (notebookId: string, folderPath: string) => void;
+
+  constructor(
+    app: App,
+    notebooks: Notebook[],
+    onSubmit: (notebookId: string, folderPath: string) => void
+  ) {
+    super(app);
+    this.notebooks = notebooks;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+
+    contentEl.createEl('h2', { text: 'Import Notebook' });
+
+    contentEl.createEl('p', {
+      text: 'Write the notebook\'s sources and notes into a folder as markdown, then link the folder. Importing again refreshes what changed in Open Notebook.'
+    });
+
+    let folderText: TextComponent;
+
+    // Notebook selection dropdown
+    new Setting(contentEl)
+      .setName('Notebook')
+      .setDesc('Notebooks already linked are refreshed in their folder')
+      .addDropdown(dropdown => {
+        dropdown.addOption('', '-- Select Notebook --');
+
+        // Notebooks that exist only on the server first
+        const sorted = [...this.notebooks].sort((a, b) => Number(!!a.localPath) - Number(!!b.localPath));
+        sorted.forEach(notebook => {
+          const displayName = notebook.localPath
+            ? `${notebook.name} (linked to ${notebook.localPath})`
+            : `${notebook.name} (${notebook.sourceCount} sources, ${notebook.noteCount} notes)`;
+          dropdown.addOption(notebook.id, displayName);
+        });
+
+        dropdown.onChange(value => {
+          this.selectedNotebookId = value;
+          const notebook = this.notebooks.find(nb => nb.id === value);
+          this.folderPath = notebook ? notebook.localPath || this.getDefaultFolder(notebook) : '';
+          folderText.setValue(this.folderPath);
+          folderText.setDisabled(!!notebook?.localPath);
+        });
+      });
+
+    // Target folder input
+    new Setting(contentEl)
+      .setName('Folder')
+      .setDesc('Created if it doesn\'t exist')
+      .addText(text => {
+        folderText = text;
+        text
+          .setPlaceholder('Research')
+          .onChange(value => {
+            this.folderPath = value;
+          });
+      });
+
+    // Buttons
+    new Setting(contentEl)
+      .addButton(btn => btn
+        .setButtonText('Cancel')
+        .onClick(() => {
+          this.close();
+        }))
+      .addButton(btn => btn
+        .setButtonText('Import')
+        .setCta()
+        .onClick(() => {
+          const folderPath = this.folderPath.trim().replace(/^\/+|\/+$/g, '');
+          if (!this.selectedNotebookId || !folderPath) {
+            return;
+          }
+          this.onSubmit(this.selectedNotebookId, folderPath);
+          this.close();
+        }));
+  }
+
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+
+  /**
+   * Suggest a top-level folder named after the notebook
+   */
+  private getDefaultFolder(notebook: Notebook): string {
+    return notebook.name.replace(/[\\/:*?"<>|#^[\]]/g, '').trim() || 'Imported notebook';
+  }
+}
@@ -0,0 +1,206 @@
+// Modal previewing a sync plan, letting the user opt items out before running it
+import { App, Modal } from 'obsidian';
+import { JobRunner } from '../services/JobRunner';
+import { SyncPlanAction, SyncPlanItem, SyncPlanResult } from '../types/sync';
+import { logger } from '../utils/Logger';
+
+// Display order and labels for each kind of planned change
+const ACTION_LABELS: Array<[SyncPlanAction, string]> = [
+  ['conflict', 'Conflicts'],
+  ['create', 'Create'],
+  ['update', 'Update'],
+  ['recreate', 'Recreate'],
+  ['rename', 'Rename'],
+  ['delete', 'Delete'],
+  ['skip', 'Skip']
+];
+
+export class SyncPlanModal extends Modal {
+  private title: string;
+  private plan: SyncPlanItem[];
+  private executeItem: (item: SyncPlanItem) => Promise<SyncPlanResult>;
+  private onComplete: (results: Map<SyncPlanItem, SyncPlanResult>) => void;
+  private runner: JobRunner;
+  private summaryEl: HTMLElement;
+  private statusEls: Map<SyncPlanItem, HTMLElement> = new Map();
+  private checkboxes: HTMLInputElement[] = [];
+  private running: boolean = false;
+  private finished: boolean = false;
+
+  constructor(
+    app: App,
+    title: string,
+    plan: SyncPlanItem[],
+    executeItem: (item: SyncPlanItem) => Promise<SyncPlanResult>,
+    onComplete: (results: Map<SyncPlanItem, SyncPlanResult>) => void,
+    concurrency: number = 1
+  ) {
+    super(app);
+    this.title = title;
+    this.plan = plan;
+    this.executeItem = executeItem;
+    this.onComplete = onComplete;
+    this.runner = new JobRunner(concurrency);
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    contentEl.empty();
+    contentEl.addClass('open-notebook-sync-plan-modal');
+
+    if (modalEl) {
+      modalEl.style.width = '80vw';
+      modalEl.style.maxWidth = '900px';
+    }
+
+    contentEl.createEl('h2', { text: this.title });
+    this.summaryEl = contentEl.createEl('p', { text: this.getSummary() });
+
+    const listEl = contentEl.createDiv({ cls: 'sync-plan-list' });
+    for (const [action, label] of ACTION_LABELS) {
+      const items = this.plan.filter(item => item.action === action);
+      if (items.length > 0) {
+        this.renderGroup(listEl, action, label, items);
+      }
+    }
+
+    const buttonsEl = contentEl.createDiv({ cls: 'sync-plan-buttons' });
+
+    const runBtn = buttonsEl.createEl('button', { cls: 'mod-cta' });
+    const cancelBtn = buttonsEl.createEl('button', { text: 'Cancel' });
+    const updateRunButton = () => {
+      const count = this.getIncludedItems().length;
+      runBtn.setText(`Run ${count} change${count === 1 ? '' : 's'}`);
+    };
+    updateRunButton();
+
+    this.checkboxes.forEach(checkbox => checkbox.addEventListener('change', updateRunButton));
+
+    runBtn.addEventListener('click', async () => {
+      if (this.finished) {
+        this.close();
+        return;
+      }
+
+      runBtn.disabled = true;
+      cancelBtn.setText('Stop');
+      await this.run();
+
+      runBtn.disabled = false;
+      runBtn.setText('Done');
+      cancelBtn.remove();
+    });
+
+    cancelBtn.addEventListener('click', () => {
+      if (this.running) {
+        // Stop after the items in progress
+        this.runner.cancel();
+        cancelBtn.disabled = true;
+        this.summaryEl.setText(this.runner.describeProgress());
+        return;
+      }
+      logger.info('Sync plan cancelled');
+      this.close();
+    });
+  }
+
+  onClose(): void {
+    // Closing mid-run stops after the items in progress
+    if (this.running) {
+      this.runner.cancel();
+    }
+    this.contentEl.empty();
+  }
+
+  /**
+   * Describe the plan in one line
+   */
+  private getSummary(): string {
+    const counts = ACTION_LABELS
+      .map(([action, label]) => [label, this.plan.filter(item => item.action === action).length] as const)
+      .filter(([, count]) => count > 0)
+      .map(([label, count]) => `${label}: ${count}`);
+
+    if (counts.length === 0) {
+      return 'No files to sync.';
+    }
+
+    return `${counts.join(', ')}. Uncheck anything you don't want to run.`;
+  }
+
+  /**
+   * Render the items for one action, with a checkbox per item
+   */
+  private renderGroup(listEl: HTMLElement, action: SyncPlanAction, label: string, items: SyncPlanItem[]): void {
+    // Skipped files are only listed for reference, collapsed
+    const groupEl = listEl.createEl('details', { cls: `sync-plan-group sync-plan-${action}` });
+    groupEl.open = action !== 'skip';
+    groupEl.createEl('summary', { text: `${label} (${items.length})` });
+
+    for (const item of items) {
+      const rowEl = groupEl.createDiv({ cls: 'sync-plan-item' });
+
+      if (action !== 'skip') {
+        const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+        checkbox.checked = item.included;
+        checkbox.addEventListener('change', () => {
+          item.included = checkbox.checked;
+        });
+        this.checkboxes.push(checkbox);
+      }
+
+      const textEl = rowEl.createDiv({ cls: 'sync-plan-item-text' });
+      textEl.createDiv({ cls: 'sync-plan-item-path', text: item.filePath });
+      textEl.createDiv({ cls: 'sync-plan-item-reason', text: item.reason });
+
+      this.statusEls.set(item, rowEl.createSpan({ cls: 'sync-plan-item-status' }));
+    }
+  }
+
+  /**
+   * Get the items the user left checked
+   */
+  private getIncludedItems(): SyncPlanItem[] {
+    return this.plan.filter(item => item.action !== 'skip' && item.included);
+  }
+
+  /**
+   * Execute the checked items through the job runner, reporting each result in its row
+   */
+  private async run(): Promise<void> {
+    const items = this.getIncludedItems();
+
+    this.running = true;
+    this.checkboxes.forEach(checkbox => checkbox.disabled = true);
+    items.forEach(item => this.statusEls.get(item)?.setText('Queued'));
+    logger.info(`Running sync plan with ${items.length} items`);
+
+    const batch = await this.runner.run(items, async (item) => {
+      const statusEl = this.statusEls.get(item);
+      statusEl?.setText('Running…');
+
+      const result = await this.executeItem(item);
+
+      statusEl?.setText(result.message);
+      statusEl?.toggleClass('is-success', result.success);
+      statusEl?.toggleClass('is-error', !result.success);
+      if (!this.runner.isCancelled()) {
+        this.summaryEl.setText(this.runner.describeProgress());
+      }
+      return result;
+    });
+
+    batch.cancelled.forEach(item => this.statusEls.get(item)?.setText('Not run'));
+
+    const failed = Array.from(batch.results.values()).filter(result => !result.success).length;
+    this.summaryEl.setText(
+      `Ran ${batch.results.size} change${batch.results.size === 1 ? '' : 's'}` +
+      (failed > 0 ? `, ${failed} failed` : '') +
+      (batch.cancelled.length > 0 ? `, ${batch.cancelled.length} not run` : '')
+    );
+
+    this.running = false;
+    this.finished = true;
+    this.onComplete(batch.results);
+  }
+}
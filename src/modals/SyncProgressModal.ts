@@ -0,0 +1,128 @@
+// Modal showing a running batch sync: overall progress with an ETA, each file's status and what failed
+import { App, Modal } from 'obsidian';
+import { JobRunner } from '../services/JobRunner';
+import { SyncJobStatus, SyncJobUpdate } from '../types/sync';
+
+// Labels for files without a result message yet
+const STATUS_LABELS: Record<SyncJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Syncing…',
+  done: 'Synced',
+  failed: 'Failed',
+  cancelled: 'Not run'
+};
+
+export class SyncProgressModal extends Modal {
+  private title: string;
+  private runner: JobRunner;
+  private statusEls: Map<string, HTMLElement> = new Map();
+  private failures: Map<string, string> = new Map();
+  private finished: boolean = false;
+
+  // UI elements
+  private progressEl: HTMLElement;
+  private listEl: HTMLElement;
+  private failuresEl: HTMLElement;
+  private closeBtn: HTMLButtonElement;
+
+  constructor(app: App, title: string, runner: JobRunner) {
+    super(app);
+    this.title = title;
+    this.runner = runner;
+  }
+
+  onOpen(): void {
+    const { contentEl, modalEl } = this;
+    contentEl.empty();
+    contentEl.addClass('open-notebook-sync-progress-modal');
+
+    if (modalEl) {
+      modalEl.style.width = '80vw';
+      modalEl.style.maxWidth = '900px';
+    }
+
+    contentEl.createEl('h2', { text: this.title });
+    this.progressEl = contentEl.createEl('p', { text: 'Starting…' });
+    this.listEl = contentEl.createDiv({ cls: 'sync-progress-list' });
+    this.failuresEl = contentEl.createDiv({ cls: 'sync-progress-failures' });
+
+    const buttonsEl = contentEl.createDiv({ cls: 'sync-progress-buttons' });
+    this.closeBtn = buttonsEl.createEl('button', { text: 'Cancel' });
+    this.closeBtn.addEventListener('click', () => {
+      if (this.finished) {
+        this.close();
+        return;
+      }
+      // Stop after the files in progress
+      this.runner.cancel();
+      this.closeBtn.disabled = true;
+      this.progressEl.setText(this.runner.describeProgress());
+    });
+  }
+
+  onClose(): void {
+    // Closing mid-run stops after the files in progress
+    if (!this.finished) {
+      this.runner.cancel();
+    }
+    this.contentEl.empty();
+  }
+
+  /**
+   * Show a file's new status, adding its row the first time it's seen
+   */
+  public update(update: SyncJobUpdate): void {
+    if (!this.listEl) {
+      return;
+    }
+
+    let statusEl = this.statusEls.get(update.filePath);
+    if (!statusEl) {
+      const rowEl = this.listEl.createDiv({ cls: 'sync-progress-item' });
+      rowEl.createDiv({ cls: 'sync-progress-item-path', text: update.filePath });
+      statusEl = rowEl.createSpan({ cls: 'sync-progress-item-status' });
+      this.statusEls.set(update.filePath, statusEl);
+    }
+
+    statusEl.setText(update.message || STATUS_LABELS[update.status]);
+    statusEl.toggleClass('is-success', update.status === 'done');
+    statusEl.toggleClass('is-error', update.status === 'failed');
+
+    if (update.status === 'failed') {
+      this.failures.set(update.filePath, update.message || 'Unknown error');
+      this.renderFailures();
+    }
+
+    if (!this.finished) {
+      this.progressEl.setText(this.runner.describeProgress());
+    }
+  }
+
+  /**
+   * Show the final summary and turn Cancel into Close
+   */
+  public finish(summary: string): void {
+    this.finished = true;
+    if (!this.closeBtn) {
+      return;
+    }
+
+    this.progressEl.setText(summary);
+    this.closeBtn.disabled = false;
+    this.closeBtn.setText('Close');
+    this.closeBtn.addClass('mod-cta');
+  }
+
+  /**
+   * List every failed file with its error
+   */
+  private renderFailures(): void {
+    this.failuresEl.empty();
+    this.failuresEl.createEl('h4', { text: `Failed (${this.failures.size})` });
+    this.failures.forEach((message, filePath) => {
+      const rowEl = this.failuresEl.createDiv({ cls: 'sync-progress-failure' });
+      rowEl.createDiv({ cls: 'sync-progress-item-path', text: filePath });
+      rowEl.createDiv({ cls: 'sync-progress-failure-message', text: message });
+    });
+  }
+}
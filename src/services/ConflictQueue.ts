@@ -0,0 +1,84 @@
+// Queue of sync conflicts waiting for the user to review
+import { ConflictInfo } from '../types/sync';
+import { logger } from '../utils/Logger';
+
+export class ConflictQueue {
+  private conflicts: ConflictInfo[] = [];
+  private persistCallback: (conflicts: ConflictInfo[]) => Promise<void>;
+
+  constructor(persistCallback: (conflicts: ConflictInfo[]) => Promise<void>) {
+    this.persistCallback = persistCallback;
+  }
+
+  /**
+   * Load persisted conflicts (dates come back from settings as strings)
+   */
+  public initialize(conflicts: ConflictInfo[]): void {
+    this.conflicts = conflicts.map(conflict => ({
+      ...conflict,
+      localVersion: {
+        ...conflict.localVersion,
+        modifiedAt: new Date(conflict.localVersion.modifiedAt)
+      },
+      remoteVersion: {
+        ...conflict.remoteVersion,
+        modifiedAt: new Date(conflict.remoteVersion.modifiedAt)
+      }
+    }));
+    logger.info(`Conflict queue initialized with ${this.conflicts.length} conflicts`);
+  }
+
+  /**
+   * Add a conflict, replacing any earlier conflict for the same file
+   */
+  public async add(conflict: ConflictInfo): Promise<void> {
+    this.conflicts = this.conflicts.filter(c => c.filePath !== conflict.filePath);
+    this.conflicts.push(conflict);
+    logger.info(`Queued conflict for ${conflict.filePath}`);
+    await this.persistCallback(this.conflicts);
+  }
+
+  /**
+   * Remove the conflict for a file
+   */
+  public async remove(filePath: string): Promise<void> {
+    const before = this.conflicts.length;
+    this.conflicts = this.conflicts.filter(c => c.filePath !== filePath);
+
+    if (this.conflicts.length !== before) {
+      await this.persistCallback(this.conflicts);
+    }
+  }
+
+  /**
+   * Follow a renamed file
+   */
+  public async renamePath(oldPath: string, newPath: string): Promise<void> {
+    const conflict = this.conflicts.find(c => c.filePath === oldPath);
+    if (conflict) {
+      conflict.filePath = newPath;
+      await this.persistCallback(this.conflicts);
+    }
+  }
+
+  /**
+   * Check if a file has an unresolved conflict
+   */
+  public has(filePath: string): boolean {
+    return this.conflicts.some(c => c.filePath === filePath);
+  }
+
+  /**
+   * Get all queued conflicts, oldest first
+   */
+  public getAll(): ConflictInfo[] {
+    return [...this.conflicts];
+  }
+
+  /**
+   * Get number of queued conflicts
+   */
+  public getQueueSize(): number {
+    return this.conflicts.length;
+  }
+}
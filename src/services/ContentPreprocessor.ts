@@ -0,0 +1,177 @@
+// Content preprocessor - turns Obsidian-only markdown into plain text before upload
+import { App, TFile, getLinkpath } from 'obsidian';
+import { OpenNotebookSettings, LinkFormat } from '../types/settings';
+import { logger } from '../utils/Logger';
+
+// Fenced code blocks and inline code are passed through untouched
+const CODE_PATTERN = /(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]+`)/;
+
+// ![[embed]] and [[link]], with optional #heading, #^block and |alias
+const WIKILINK_PATTERN = /(!?)\[\[([^\[\]\n]+?)\]\]/;
+
+// "> [!note]+ Title" - the callout marker, its fold flag and title
+const CALLOUT_PATTERN = /^(\s*(?:>\s*)+)\[!([\w-]+)\][+-]?[ \t]*(.*)$/gm;
+
+// Block IDs such as " ^abc123" at the end of a line
+const BLOCK_ID_PATTERN = /[ \t]+\^[A-Za-z0-9-]+$/gm;
+
+// Stands in for a code part while comments are stripped, so %% in code is never matched
+const CODE_PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/;
+
+export class ContentPreprocessor {
+  private app: App;
+  private settings: OpenNotebookSettings;
+  private isExcluded: (file: TFile) => boolean;
+
+  constructor(app: App, settings: OpenNotebookSettings, isExcluded: (file: TFile) => boolean) {
+    this.app = app;
+    this.settings = settings;
+    this.isExcluded = isExcluded;
+  }
+
+  /**
+   * Process a note body for upload, or return it unchanged if preprocessing is off
+   */
+  public async process(file: TFile, body: string): Promise<string> {
+    if (!this.settings.preprocessContent) {
+      return body;
+    }
+
+    try {
+      const processed = await this.processText(body, file.path, 0, new Set([file.path]));
+      return processed.replace(/\n{3,}/g, '\n\n').trim();
+    } catch (error) {
+      logger.warn(`Failed to preprocess ${file.path}, uploading it unchanged`, error);
+      return body;
+    }
+  }
+
+  /**
+   * Process text from a note, leaving code untouched
+   * visited holds the notes being expanded, so transclusion cycles stop
+   */
+  private async processText(text: string, sourcePath: string, depth: number, visited: Set<string>): Promise<string> {
+    let parts = text.split(CODE_PATTERN);
+    if (this.settings.stripComments) {
+      parts = this.stripComments(parts);
+    }
+
+    for (let i = 0; i < parts.length; i += 2) {
+      let part = await this.replaceLinks(parts[i], sourcePath, depth, visited);
+      if (this.settings.stripCallouts) {
+        part = part.replace(CALLOUT_PATTERN, (_match, prefix: string, type: string, title: string) =>
+          `${prefix}**${title.trim() || type.charAt(0).toUpperCase() + type.slice(1).toLowerCase()}**`
+        );
+      }
+      parts[i] = part.replace(BLOCK_ID_PATTERN, '');
+    }
+
+    return parts.join('');
+  }
+
+  /**
+   * Remove %%comments%% from text split on code, leaving the code parts untouched
+   * Comments can span lines and code; code inside a comment goes with it
+   */
+  private stripComments(parts: string[]): string[] {
+    const prose = parts.map((part, i) => i % 2 === 0 ? part : `\u0000${i}\u0000`).join('');
+    const stripped = prose.replace(/%%[\s\S]*?%%/g, '').split(CODE_PLACEHOLDER_PATTERN);
+
+    // split() keeps the captured index between prose parts - put the code back in its place
+    return stripped.map((part, i) => i % 2 === 0 ? part : parts[Number(part)]);
+  }
+
+  /**
+   * Replace wikilinks with readable text and expand embedded notes
+   */
+  private async replaceLinks(text: string, sourcePath: string, depth: number, visited: Set<string>): Promise<string> {
+    const pattern = new RegExp(WIKILINK_PATTERN.source, 'g');
+    let result = '';
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      const [whole, embed, inner] = match;
+      const [target, alias] = this.splitAlias(inner);
+      const linkpath = getLinkpath(target);
+      const subpath = target.slice(linkpath.length);
+      const dest = linkpath
+        ? this.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath)
+        : this.app.vault.getAbstractFileByPath(sourcePath) as TFile | null;
+
+      result += text.slice(lastIndex, match.index);
+      lastIndex = match.index + whole.length;
+
+      // Excluded notes are only ever named, never expanded into another source
+      if (embed && dest && dest.extension === 'md' && depth < this.settings.transclusionDepth &&
+          !visited.has(dest.path) && !this.isExcluded(dest)) {
+        const section = await this.readSection(dest, subpath);
+        if (section !== null) {
+          const nested = new Set(visited).add(dest.path);
+          result += `\n${await this.processText(section, dest.path, depth + 1, nested)}\n`;
+          continue;
+        }
+      }
+
+      result += this.formatLink(dest, linkpath, subpath, alias);
+    }
+
+    return result + text.slice(lastIndex);
+  }
+
+  /**
+   * Split "target|alias" into its parts
+   */
+  private splitAlias(inner: string): [string, string | undefined] {
+    const pipe = inner.indexOf('|');
+    return pipe === -1 ? [inner.trim(), undefined] : [inner.slice(0, pipe).trim(), inner.slice(pipe + 1).trim() || undefined];
+  }
+
+  /**
+   * Render a link as its title, or as a link to the note in Obsidian
+   */
+  private formatLink(dest: TFile | null, linkpath: string, subpath: string, alias: string | undefined): string {
+    const name = dest ? dest.basename : linkpath.split('/').pop() || linkpath;
+    const heading = subpath.startsWith('#') && !subpath.startsWith('#^') ? subpath.slice(1).replace(/#/g, ' > ') : '';
+    const title = alias || [name, heading].filter(Boolean).join(' > ');
+
+    if (this.settings.linkFormat !== LinkFormat.URL || !dest) {
+      return title;
+    }
+
+    const vault = encodeURIComponent(this.app.vault.getName());
+    return `[${title}](obsidian://open?vault=${vault}&file=${encodeURIComponent(dest.path)})`;
+  }
+
+  /**
+   * Read the part of a note an embed points at: the whole body, a heading's section or a block
+   * Returns null if the heading or block doesn't exist
+   */
+  private async readSection(file: TFile, subpath: string): Promise<string | null> {
+    const content = await this.app.vault.cachedRead(file);
+    const cache = this.app.metadataCache.getFileCache(file);
+
+    if (subpath.startsWith('#^')) {
+      const block = cache?.blocks?.[subpath.slice(2).toLowerCase()];
+      return block ? content.slice(block.position.start.offset, block.position.end.offset) : null;
+    }
+
+    if (subpath.startsWith('#')) {
+      // Nested headings ("#Parent#Child") resolve to the last one
+      const wanted = subpath.split('#').filter(Boolean).pop()?.trim().toLowerCase();
+      const headings = cache?.headings || [];
+      const index = headings.findIndex(h => h.heading.trim().toLowerCase() === wanted);
+      if (index === -1) {
+        return null;
+      }
+
+      // The section runs until the next heading of the same or a higher level
+      const start = headings[index];
+      const end = headings.slice(index + 1).find(h => h.level <= start.level);
+      return content.slice(start.position.start.offset, end ? end.position.start.offset : content.length);
+    }
+
+    const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+    return (frontmatterEnd !== undefined ? content.slice(frontmatterEnd) : content).trim();
+  }
+}
@@ -0,0 +1,272 @@
+// Gitignore-style exclusion rules from settings and .opennotebookignore files
+import { App, TFile, TFolder } from 'obsidian';
+import { OpenNotebookSettings } from '../types/settings';
+import { logger } from '../utils/Logger';
+
+export const IGNORE_FILE_NAME = '.opennotebookignore';
+
+export interface ExclusionRule {
+  text: string; // The rule as written
+  source: string; // "settings" or the path of the ignore file
+  negated: boolean;
+  matches: (file: TFile) => boolean;
+}
+
+export class ExclusionRules {
+  private app: App;
+  private settings: OpenNotebookSettings;
+
+  // Rules from settings, recompiled when the settings change
+  private settingsRules: ExclusionRule[] = [];
+  private settingsKey: string = '';
+
+  // Rules from ignore files, keyed by the folder holding the file ('' for the vault root)
+  private ignoreFileRules: Map<string, ExclusionRule[]> = new Map();
+
+  constructor(app: App, settings: OpenNotebookSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Re-read every ignore file in the vault
+   * Dotfiles aren't indexed by Obsidian, so changes to them are only picked up here
+   */
+  public async reload(): Promise<void> {
+    const ignoreFileRules = new Map<string, ExclusionRule[]>();
+    const adapter = this.app.vault.adapter;
+    const folders = this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder);
+
+    for (const folder of folders) {
+      const base = folder.isRoot() ? '' : folder.path;
+      const ignorePath = base ? `${base}/${IGNORE_FILE_NAME}` : IGNORE_FILE_NAME;
+
+      try {
+        if (await adapter.exists(ignorePath)) {
+          const content = await adapter.read(ignorePath);
+          ignoreFileRules.set(base, this.parse(content.split('\n'), base, ignorePath));
+        }
+      } catch (error) {
+        logger.warn(`Failed to read ${ignorePath}`, error);
+      }
+    }
+
+    this.ignoreFileRules = ignoreFileRules;
+    logger.info(`Loaded exclusion rules from ${ignoreFileRules.size} ${IGNORE_FILE_NAME} file(s)`);
+  }
+
+  /**
+   * Check if a file is excluded from sync
+   */
+  public isExcluded(file: TFile): boolean {
+    return this.getExcludingRule(file) !== null;
+  }
+
+  /**
+   * Get the rule that excludes a file, or null if it isn't excluded
+   * The last matching rule wins; deeper ignore files come after shallower ones and settings
+   */
+  public getExcludingRule(file: TFile): ExclusionRule | null {
+    let decidingRule: ExclusionRule | null = null;
+
+    for (const rule of this.getRulesFor(file)) {
+      if (rule.matches(file)) {
+        decidingRule = rule;
+      }
+    }
+
+    return decidingRule && !decidingRule.negated ? decidingRule : null;
+  }
+
+  /**
+   * Collect the rules that apply to a file, in evaluation order
+   */
+  private getRulesFor(file: TFile): ExclusionRule[] {
+    const rules = [...this.getSettingsRules()];
+
+    const segments = file.path.split('/').slice(0, -1);
+    for (let depth = 0; depth <= segments.length; depth++) {
+      const folderRules = this.ignoreFileRules.get(segments.slice(0, depth).join('/'));
+      if (folderRules) {
+        rules.push(...folderRules);
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Get the compiled rules from settings, recompiling them if they changed
+   */
+  private getSettingsRules(): ExclusionRule[] {
+    const excludedFolders = this.settings.excludedFolders || [];
+    const exclusionRules = this.settings.exclusionRules || [];
+
+    const key = JSON.stringify([excludedFolders, exclusionRules]);
+    if (key !== this.settingsKey) {
+      this.settingsRules = [
+        ...excludedFolders.map(folder => this.compileExcludedFolder(folder)),
+        ...this.parse(exclusionRules, '', 'settings')
+      ];
+      this.settingsKey = key;
+    }
+
+    return this.settingsRules;
+  }
+
+  /**
+   * Compile a legacy excluded folder: a path prefix, or a folder name at any depth
+   */
+  private compileExcludedFolder(folder: string): ExclusionRule {
+    return {
+      text: folder,
+      source: 'settings',
+      negated: false,
+      matches: (file: TFile) => file.path === folder ||
+        file.path.startsWith(folder + '/') ||
+        file.path.split('/').slice(0, -1).includes(folder)
+    };
+  }
+
+  /**
+   * Parse rule lines; blank lines and lines starting with # are ignored
+   */
+  private parse(lines: string[], base: string, source: string): ExclusionRule[] {
+    const rules: ExclusionRule[] = [];
+
+    for (const line of lines) {
+      const text = line.trim();
+      if (!text || text.startsWith('#')) {
+        continue;
+      }
+
+      try {
+        rules.push(this.compile(text, base, source));
+      } catch (error) {
+        logger.warn(`Ignoring invalid exclusion rule "${text}" in ${source}`, error);
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Compile one rule: a glob, "regex:<pattern>" or "frontmatter:<key>[: <value>]", optionally negated with "!"
+   */
+  private compile(text: string, base: string, source: string): ExclusionRule {
+    const negated = text.startsWith('!');
+    const body = negated ? text.slice(1).trim() : text;
+
+    let test: (file: TFile, relativePath: string) => boolean;
+    if (body.startsWith('regex:')) {
+      const regex = new RegExp(body.slice('regex:'.length).trim());
+      test = (_file, relativePath) => regex.test(relativePath);
+    } else if (body.startsWith('frontmatter:')) {
+      const predicate = body.slice('frontmatter:'.length).trim();
+      const separator = predicate.indexOf(':');
+      const key = (separator === -1 ? predicate : predicate.slice(0, separator)).trim();
+      const expected = separator === -1 ? undefined : predicate.slice(separator + 1).trim().replace(/^["']|["']$/g, '');
+      if (!key) {
+        throw new Error('Missing frontmatter key');
+      }
+      test = (file) => this.matchesFrontmatter(file, key, expected);
+    } else {
+      const glob = this.compileGlob(body);
+      test = (_file, relativePath) => glob(relativePath);
+    }
+
+    return {
+      text,
+      source,
+      negated,
+      matches: (file: TFile) => {
+        // Ignore file rules only cover the folder the file is in
+        const relativePath = base ? (file.path.startsWith(base + '/') ? file.path.slice(base.length + 1) : null) : file.path;
+        return relativePath !== null && test(file, relativePath);
+      }
+    };
+  }
+
+  /**
+   * Compile a glob against paths relative to the rule's folder
+   * Without a slash it matches a name at any depth; a trailing slash matches folders only
+   */
+  private compileGlob(pattern: string): (relativePath: string) => boolean {
+    const folderOnly = pattern.endsWith('/');
+    const trimmed = pattern.replace(/\/+$/, '');
+    const anchored = trimmed.includes('/');
+    const source = this.globToRegExp(trimmed.replace(/^\/+/, ''));
+    const regex = new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`);
+
+    return (relativePath: string) => {
+      // A folder rule excludes everything inside the folder
+      const segments = relativePath.split('/');
+      for (let depth = 1; depth < segments.length; depth++) {
+        if (regex.test(segments.slice(0, depth).join('/'))) {
+          return true;
+        }
+      }
+      return !folderOnly && regex.test(relativePath);
+    };
+  }
+
+  /**
+   * Translate glob syntax (*, **, ?, [...]) to a regular expression source
+   */
+  private globToRegExp(glob: string): string {
+    let source = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+
+      if (char === '*' && glob[i + 1] === '*') {
+        // "**/" matches zero or more folders, a bare "**" anything
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else if (char === '[') {
+        const end = glob.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+        } else {
+          const members = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+          source += `[${members}]`;
+          i = end;
+        }
+      } else if (char === '\\' && i + 1 < glob.length) {
+        source += glob[i + 1].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+        i += 1;
+      } else {
+        source += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      }
+    }
+
+    return source;
+  }
+
+  /**
+   * Check a frontmatter predicate; without a value, any value other than false or empty matches
+   */
+  private matchesFrontmatter(file: TFile, key: string, expected: string | undefined): boolean {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    if (!frontmatter || !(key in frontmatter)) {
+      return false;
+    }
+
+    const value = frontmatter[key];
+    if (expected === undefined) {
+      return value !== false && value !== null && value !== '';
+    }
+
+    const values = Array.isArray(value) ? value : [value];
+    return values.some(v => String(v).toLowerCase() === expected.toLowerCase());
+  }
+}
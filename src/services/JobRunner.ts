@@ -0,0 +1,117 @@
+// Job runner - works through a batch with a bounded number of workers, and can be cancelled mid-batch
+import { logger } from '../utils/Logger';
+
+export interface JobBatchResult<T, R> {
+  results: Map<T, R>;
+  errors: Map<T, Error>;
+  cancelled: T[]; // Never started because the batch was cancelled
+}
+
+export class JobRunner {
+  private concurrency: number;
+  private cancelled: boolean = false;
+  private total: number = 0;
+  private completed: number = 0;
+  private failed: number = 0;
+  private startedAt: number = 0;
+
+  constructor(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency) || 1);
+  }
+
+  /**
+   * Stop starting new jobs; jobs already running finish
+   */
+  public cancel(): void {
+    if (!this.cancelled) {
+      logger.info(`Cancelling batch with ${this.total - this.completed} jobs left`);
+    }
+    this.cancelled = true;
+  }
+
+  public isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  /**
+   * Run a job per item, at most `concurrency` at a time
+   * A failing job is recorded in the errors and never stops the batch
+   */
+  public async run<T, R>(items: T[], job: (item: T) => Promise<R>): Promise<JobBatchResult<T, R>> {
+    const batch: JobBatchResult<T, R> = { results: new Map(), errors: new Map(), cancelled: [] };
+    const pending = [...items];
+
+    this.total = items.length;
+    this.completed = 0;
+    this.failed = 0;
+    this.startedAt = Date.now();
+
+    const worker = async () => {
+      let item: T | undefined;
+      while ((item = pending.shift()) !== undefined) {
+        if (this.cancelled) {
+          batch.cancelled.push(item);
+          continue;
+        }
+
+        try {
+          batch.results.set(item, await job(item));
+        } catch (error) {
+          batch.errors.set(item, error instanceof Error ? error : new Error(String(error)));
+          this.failed++;
+        }
+        this.completed++;
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(this.concurrency, items.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+
+    logger.info(`Batch finished: ${this.completed} of ${this.total} run, ${this.failed} failed${this.cancelled ? ', cancelled' : ''}`);
+    return batch;
+  }
+
+  /**
+   * Describe progress in one line, with an estimate of the time left
+   */
+  public describeProgress(): string {
+    const parts = [`${this.completed} of ${this.total} done`];
+    if (this.failed > 0) {
+      parts.push(`${this.failed} failed`);
+    }
+
+    const remaining = this.getRemainingMs();
+    if (this.cancelled) {
+      parts.push('stopping');
+    } else if (remaining !== null) {
+      parts.push(`about ${this.formatDuration(remaining)} left`);
+    }
+
+    return parts.join(' • ');
+  }
+
+  /**
+   * Estimate the time left from the average pace so far, or null before the first job finishes
+   */
+  private getRemainingMs(): number | null {
+    if (this.completed === 0 || this.completed >= this.total) {
+      return null;
+    }
+    return (Date.now() - this.startedAt) / this.completed * (this.total - this.completed);
+  }
+
+  /**
+   * Format a duration as "45s" or "3m 20s"
+   */
+  private formatDuration(ms: number): string {
+    const seconds = Math.max(1, Math.round(ms / 1000));
+    if (seconds < 60) {
+      return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    return seconds % 60 === 0 ? `${minutes}m` : `${minutes}m ${seconds % 60}s`;
+  }
+}
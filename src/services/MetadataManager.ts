@@ -1,35 +1,63 @@
-// Metadata manager for handling frontmatter sync metadata
+// Metadata manager for handling sync metadata, kept in frontmatter or a sidecar index
 import { App, TFile } from 'obsidian';
 import { NoteFrontmatter } from '../types/note';
+import { MetadataStorage, OpenNotebookSettings } from '../types/settings';
+import { SidecarStore } from './SidecarStore';
+import { FrontmatterEditor } from '../utils/FrontmatterEditor';
+import { ContentHasher } from '../utils/ContentHasher';
 import { logger } from '../utils/Logger';
-import * as crypto from 'crypto';
+
+// Every sync metadata key, for clearing and migrating
+const METADATA_KEYS: Array<keyof NoteFrontmatter> = [
+  'on_notebook_id',
+  'on_notebook_ids',
+  'on_note_id',
+  'on_source_id',
+  'on_synced_at',
+  'on_modified_at',
+  'on_checksum',
+  'on_sync_enabled',
+  'on_title',
+  'on_topics',
+  'on_remote_updated',
+  'on_ai_generated'
+];
+
+// How earlier versions found the frontmatter when hashing, for comparing legacy checksums
+const LEGACY_FRONTMATTER_PATTERN = /^---\n[\s\S]*?\n---\n/;
 
 export class MetadataManager {
   private app: App;
+  private settings: OpenNotebookSettings;
+  private sidecar: SidecarStore;
+
+  // Compiled checksum ignore patterns, recompiled when the settings change
+  private ignoredRegions: RegExp[] = [];
+  private ignoredRegionsKey: string = '';
 
-  constructor(app: App) {
+  constructor(app: App, settings: OpenNotebookSettings, sidecar: SidecarStore) {
     this.app = app;
+    this.settings = settings;
+    this.sidecar = sidecar;
   }
 
   /**
-   * Get metadata from a file's frontmatter
+   * Check if metadata is kept in the sidecar index rather than frontmatter
+   */
+  private usesSidecar(): boolean {
+    return this.settings.metadataStorage === MetadataStorage.SIDECAR;
+  }
+
+  /**
+   * Get a file's sync metadata from the configured storage
    */
   public async getMetadata(file: TFile): Promise<NoteFrontmatter> {
     try {
-      const cache = this.app.metadataCache.getFileCache(file);
-      const frontmatter = cache?.frontmatter || {};
-
-      return {
-        on_notebook_id: frontmatter.on_notebook_id,
-        on_note_id: frontmatter.on_note_id,
-        on_source_id: frontmatter.on_source_id,
-        on_synced_at: frontmatter.on_synced_at,
-        on_modified_at: frontmatter.on_modified_at,
-        on_checksum: frontmatter.on_checksum,
-        on_sync_enabled: frontmatter.on_sync_enabled !== false, // Default to true
-        on_topics: frontmatter.on_topics,
-        on_ai_generated: frontmatter.on_ai_generated
-      };
+      const stored: Record<string, any> = this.usesSidecar()
+        ? await this.sidecar.get(file.path) || {}
+        : this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+
+      return this.toMetadata(stored);
     } catch (error) {
       logger.error(`Failed to get metadata for ${file.path}`, error);
       return {};
@@ -37,116 +65,113 @@ export class MetadataManager {
   }
 
   /**
-   * Update metadata in a file's frontmatter
+   * Pick the sync metadata keys out of frontmatter or a sidecar entry
    */
-  public async updateMetadata(file: TFile, metadata: Partial<NoteFrontmatter>): Promise<void> {
-    try {
-      const content = await this.app.vault.read(file);
-      const updatedContent = this.updateFrontmatter(content, metadata);
+  private toMetadata(frontmatter: Record<string, any>): NoteFrontmatter {
+    return {
+      on_notebook_id: frontmatter.on_notebook_id,
+      on_notebook_ids: Array.isArray(frontmatter.on_notebook_ids) ? frontmatter.on_notebook_ids : undefined,
+      on_note_id: frontmatter.on_note_id,
+      on_source_id: frontmatter.on_source_id,
+      on_synced_at: frontmatter.on_synced_at,
+      on_modified_at: frontmatter.on_modified_at,
+      on_checksum: frontmatter.on_checksum,
+      on_sync_enabled: frontmatter.on_sync_enabled !== false, // Default to true
+      on_title: frontmatter.on_title,
+      on_topics: frontmatter.on_topics,
+      on_remote_updated: frontmatter.on_remote_updated,
+      on_ai_generated: frontmatter.on_ai_generated
+    };
+  }
 
-      await this.app.vault.modify(file, updatedContent);
-      logger.debug(`Updated metadata for ${file.path}`, metadata);
-    } catch (error) {
-      logger.error(`Failed to update metadata for ${file.path}`, error);
-      throw error;
+  /**
+   * Update a file's sync metadata in the configured storage
+   */
+  public async updateMetadata(file: TFile, metadata: Partial<NoteFrontmatter>): Promise<void> {
+    if (this.usesSidecar()) {
+      await this.sidecar.update(file, metadata);
+      logger.debug(`Updated sidecar metadata for ${file.path}`, metadata);
+      return;
     }
+
+    await this.updateFrontmatterMetadata(file, metadata);
   }
 
   /**
-   * Update frontmatter in markdown content
+   * Set frontmatter properties that belong to the note itself (such as tags), whatever the metadata storage
    */
-  private updateFrontmatter(content: string, metadata: Partial<NoteFrontmatter>): string {
-    const frontmatterRegex = /^---\n([\s\S]*?)\n---\n/;
-    const match = content.match(frontmatterRegex);
-
-    let frontmatter: Record<string, any> = {};
-    let bodyContent = content;
-
-    if (match) {
-      // Parse existing frontmatter
-      const frontmatterText = match[1];
-      frontmatter = this.parseFrontmatter(frontmatterText);
-      bodyContent = content.slice(match[0].length);
-    }
+  public async setFrontmatterProperties(file: TFile, properties: Record<string, any>): Promise<void> {
+    await this.updateFrontmatterMetadata(file, properties);
+  }
 
-    // Update with new metadata
-    Object.entries(metadata).forEach(([key, value]) => {
-      if (value !== undefined) {
-        frontmatter[key] = value;
+  /**
+   * Update metadata in a file's frontmatter, leaving every other key as written
+   */
+  private async updateFrontmatterMetadata(file: TFile, metadata: Record<string, any>): Promise<void> {
+    try {
+      const { fileManager, vault } = this.app;
+      const content = await vault.read(file);
+
+      // Both APIs are newer than minAppVersion, so check they exist
+      if ('processFrontMatter' in fileManager &&
+          FrontmatterEditor.isCanonical(FrontmatterEditor.split(content).yaml)) {
+        // Obsidian re-serializes the whole block, which is only lossless if it's already in its format
+        await fileManager.processFrontMatter(file, (frontmatter: Record<string, any>) => {
+          Object.entries(metadata).forEach(([key, value]) => {
+            if (value !== undefined) {
+              frontmatter[key] = value;
+            } else {
+              delete frontmatter[key];
+            }
+          });
+        });
+      } else if ('process' in vault) {
+        // Comments, block scalars or custom quoting - edit the on_* lines in place
+        await vault.process(file, (data: string) => FrontmatterEditor.setKeys(data, metadata));
       } else {
-        delete frontmatter[key];
+        // Older app versions
+        await this.app.vault.modify(file, FrontmatterEditor.setKeys(content, metadata));
       }
-    });
-
-    // Serialize frontmatter
-    const serialized = this.serializeFrontmatter(frontmatter);
 
-    if (serialized) {
-      return `---\n${serialized}\n---\n${bodyContent}`;
-    } else {
-      return bodyContent;
+      logger.debug(`Updated metadata for ${file.path}`, metadata);
+    } catch (error) {
+      logger.error(`Failed to update metadata for ${file.path}`, error);
+      throw error;
     }
   }
 
   /**
-   * Parse YAML frontmatter to object
+   * Replace a file's body while keeping its frontmatter, then apply metadata
    */
-  private parseFrontmatter(text: string): Record<string, any> {
-    const result: Record<string, any> = {};
-
-    const lines = text.split('\n');
-    for (const line of lines) {
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) continue;
-
-      const key = line.slice(0, colonIndex).trim();
-      let value: any = line.slice(colonIndex + 1).trim();
-
-      // Handle different value types
-      if (value === 'true') value = true;
-      else if (value === 'false') value = false;
-      else if (value.startsWith('[') && value.endsWith(']')) {
-        // Simple array parsing
-        value = value.slice(1, -1).split(',').map((v: string) => v.trim().replace(/['"]/g, ''));
-      } else if (!isNaN(Number(value))) {
-        value = Number(value);
+  public async replaceBodyContent(file: TFile, body: string, metadata: Partial<NoteFrontmatter>): Promise<void> {
+    try {
+      const content = await this.app.vault.read(file);
+      const frontmatter = FrontmatterEditor.split(content).block;
+
+      if (this.usesSidecar()) {
+        await this.app.vault.modify(file, frontmatter + body);
+        await this.sidecar.update(file, metadata);
       } else {
-        // Remove quotes if present
-        value = value.replace(/^['"]|['"]$/g, '');
+        await this.app.vault.modify(file, FrontmatterEditor.setKeys(frontmatter + body, metadata));
       }
-
-      result[key] = value;
+      logger.debug(`Replaced body content for ${file.path}`);
+    } catch (error) {
+      logger.error(`Failed to replace body content for ${file.path}`, error);
+      throw error;
     }
-
-    return result;
   }
 
   /**
-   * Serialize object to YAML frontmatter
+   * Create a file with its metadata already stored, so it isn't written twice
    */
-  private serializeFrontmatter(obj: Record<string, any>): string {
-    const lines: string[] = [];
-
-    Object.entries(obj).forEach(([key, value]) => {
-      if (value === undefined || value === null) return;
-
-      if (Array.isArray(value)) {
-        if (value.length === 0) return;
-        lines.push(`${key}: [${value.map((v: any) => `"${v}"`).join(', ')}]`);
-      } else if (typeof value === 'string') {
-        // Escape quotes in strings
-        const escaped = value.replace(/"/g, '\\"');
-        lines.push(`${key}: "${escaped}"`);
-      } else if (typeof value === 'boolean') {
-        lines.push(`${key}: ${value}`);
-      } else if (typeof value === 'number') {
-        lines.push(`${key}: ${value}`);
-      } else {
-        lines.push(`${key}: "${String(value)}"`);
-      }
-    });
+  public async createFileWithMetadata(path: string, body: string, metadata: Partial<NoteFrontmatter>): Promise<TFile> {
+    if (this.usesSidecar()) {
+      const file = await this.app.vault.create(path, body);
+      await this.sidecar.update(file, metadata);
+      return file;
+    }
 
-    return lines.join('\n');
+    return this.app.vault.create(path, FrontmatterEditor.setKeys(body, metadata));
   }
 
   /**
@@ -155,8 +180,7 @@ export class MetadataManager {
   public async computeChecksum(file: TFile): Promise<string> {
     try {
       const content = await this.app.vault.read(file);
-      const bodyContent = this.extractBodyContent(content);
-      return this.hashContent(bodyContent);
+      return await this.computeChecksumFromContent(content);
     } catch (error) {
       logger.error(`Failed to compute checksum for ${file.path}`, error);
       throw error;
@@ -166,35 +190,77 @@ export class MetadataManager {
   /**
    * Compute checksum from content string
    */
-  public computeChecksumFromContent(content: string): string {
+  public async computeChecksumFromContent(content: string): Promise<string> {
     const bodyContent = this.extractBodyContent(content);
-    return this.hashContent(bodyContent);
+    return ContentHasher.hashText(bodyContent, this.getIgnoredRegions());
+  }
+
+  /**
+   * Compute checksum from binary data (attachments have no frontmatter)
+   */
+  public async computeChecksumFromBinary(data: ArrayBuffer): Promise<string> {
+    return ContentHasher.hashBinary(data);
+  }
+
+  /**
+   * Check if a stored checksum matches content whose current checksum is already known
+   * Legacy checksums were taken over the raw body, before any preprocessing, so pass that as body
+   */
+  public checksumMatches(stored: string | undefined, body: string, checksum: string): boolean {
+    if (!stored) {
+      return false;
+    }
+
+    return ContentHasher.isCurrent(stored)
+      ? stored === checksum
+      : stored === ContentHasher.legacyHashText(body.replace(LEGACY_FRONTMATTER_PATTERN, '').trim());
+  }
+
+  /**
+   * Check if a stored attachment checksum matches binary data whose current checksum is known
+   */
+  public binaryChecksumMatches(stored: string | undefined, data: ArrayBuffer, checksum: string): boolean {
+    if (!stored) {
+      return false;
+    }
+
+    return ContentHasher.isCurrent(stored) ? stored === checksum : stored === ContentHasher.legacyHashBinary(data);
+  }
+
+  /**
+   * Check if a stored checksum is in an older format and should be rewritten
+   */
+  public isLegacyChecksum(stored: string | undefined): boolean {
+    return !!stored && !ContentHasher.isCurrent(stored);
   }
 
   /**
    * Extract body content (without frontmatter)
    */
   private extractBodyContent(content: string): string {
-    const frontmatterRegex = /^---\n[\s\S]*?\n---\n/;
-    return content.replace(frontmatterRegex, '').trim();
+    return FrontmatterEditor.split(content).body.trim();
   }
 
   /**
-   * Hash content using SHA-256
+   * Compile the configured ignored regions, skipping invalid patterns
    */
-  private hashContent(content: string): string {
-    // For browser environment, use a simple hash
-    // In Node.js, we'd use crypto.createHash('sha256')
-
-    // Simple djb2 hash (good enough for conflict detection)
-    let hash = 5381;
-    for (let i = 0; i < content.length; i++) {
-      hash = ((hash << 5) + hash) + content.charCodeAt(i);
-      hash = hash & hash; // Convert to 32-bit integer
+  private getIgnoredRegions(): RegExp[] {
+    const patterns = this.settings.checksumIgnorePatterns || [];
+
+    const key = JSON.stringify(patterns);
+    if (key !== this.ignoredRegionsKey) {
+      this.ignoredRegions = [];
+      for (const pattern of patterns) {
+        try {
+          this.ignoredRegions.push(new RegExp(pattern, 'gm'));
+        } catch (error) {
+          logger.warn(`Ignoring invalid checksum ignore pattern "${pattern}"`, error);
+        }
+      }
+      this.ignoredRegionsKey = key;
     }
 
-    // Convert to hex string
-    return Math.abs(hash).toString(16).padStart(8, '0');
+    return this.ignoredRegions;
   }
 
   /**
@@ -229,17 +295,123 @@ export class MetadataManager {
    * Clear sync metadata from file
    */
   public async clearMetadata(file: TFile): Promise<void> {
-    await this.updateMetadata(file, {
-      on_notebook_id: undefined,
-      on_note_id: undefined,
-      on_source_id: undefined,
-      on_synced_at: undefined,
-      on_modified_at: undefined,
-      on_checksum: undefined,
-      on_sync_enabled: undefined,
-      on_topics: undefined,
-      on_ai_generated: undefined
+    if (this.usesSidecar()) {
+      await this.sidecar.remove(file.path);
+      return;
+    }
+
+    await this.updateFrontmatterMetadata(file, this.emptyMetadata());
+  }
+
+  /**
+   * Metadata with every key unset, which removes them all when applied
+   */
+  private emptyMetadata(): Partial<NoteFrontmatter> {
+    const metadata: Record<string, undefined> = {};
+    METADATA_KEYS.forEach(key => metadata[key] = undefined);
+    return metadata;
+  }
+
+  /**
+   * Follow a renamed file (frontmatter moves with the file by itself)
+   */
+  public async renameFile(oldPath: string, newPath: string): Promise<void> {
+    await this.sidecar.rename(oldPath, newPath);
+  }
+
+  /**
+   * Move stored metadata of every file in a renamed folder
+   */
+  public async renameFolder(oldPath: string, newPath: string): Promise<void> {
+    await this.sidecar.renameFolder(oldPath, newPath);
+  }
+
+  /**
+   * Forget the metadata of a deleted file
+   */
+  public async removeFile(filePath: string): Promise<void> {
+    await this.sidecar.remove(filePath);
+  }
+
+  /**
+   * Write sidecar metadata still waiting for the batched save
+   */
+  public async flush(): Promise<void> {
+    await this.sidecar.flush();
+  }
+
+  /**
+   * Re-attach sidecar metadata of files moved while the plugin wasn't running
+   */
+  public async reconcileSidecar(files: TFile[]): Promise<number> {
+    return this.usesSidecar() ? this.sidecar.reconcile(files) : 0;
+  }
+
+  /**
+   * Move every file's sync metadata to the other storage, then switch to it
+   * Returns the number of files whose metadata was moved
+   */
+  public async migrateStorage(target: MetadataStorage, files: TFile[]): Promise<number> {
+    if (this.settings.metadataStorage === target) {
+      return 0;
+    }
+
+    // Copy, switch, then clean up the old storage - the modify events from rewriting
+    // frontmatter must always find the metadata, or the file would sync as new
+    const copied: TFile[] = [];
+    for (const file of files) {
+      try {
+        if (target === MetadataStorage.SIDECAR) {
+          const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+          const metadata = this.pickStoredKeys(frontmatter || {});
+          if (Object.keys(metadata).length > 0) {
+            await this.sidecar.update(file, metadata);
+            copied.push(file);
+          }
+        } else {
+          const stored = await this.sidecar.get(file.path);
+          if (stored) {
+            await this.updateFrontmatterMetadata(file, this.pickStoredKeys(stored));
+            copied.push(file);
+          }
+        }
+      } catch (error) {
+        logger.error(`Failed to migrate sync metadata for ${file.path}`, error);
+      }
+    }
+
+    // The frontmatter copies are removed next, so the sidecar must be on disk first
+    await this.sidecar.flush();
+    this.settings.metadataStorage = target;
+
+    for (const file of copied) {
+      try {
+        if (target === MetadataStorage.SIDECAR) {
+          await this.updateFrontmatterMetadata(file, this.emptyMetadata());
+        } else {
+          await this.sidecar.remove(file.path);
+        }
+      } catch (error) {
+        logger.warn(`Failed to remove old sync metadata for ${file.path}`, error);
+      }
+    }
+
+    await this.sidecar.flush();
+    logger.info(`Migrated sync metadata of ${copied.length} files to ${target}`);
+    return copied.length;
+  }
+
+  /**
+   * Copy the sync metadata keys that are actually set
+   */
+  private pickStoredKeys(source: Record<string, any>): Partial<NoteFrontmatter> {
+    const metadata: Record<string, any> = {};
+    METADATA_KEYS.forEach(key => {
+      if (source[key] !== undefined && source[key] !== null) {
+        metadata[key] = source[key];
+      }
     });
+    return metadata;
   }
 
   /**
@@ -251,8 +423,9 @@ export class MetadataManager {
       return true; // No checksum means never synced
     }
 
-    const currentChecksum = await this.computeChecksum(file);
-    return currentChecksum !== metadata.on_checksum;
+    const content = await this.app.vault.read(file);
+    const currentChecksum = await this.computeChecksumFromContent(content);
+    return !this.checksumMatches(metadata.on_checksum, content, currentChecksum);
   }
 
   /**
@@ -1,21 +1,28 @@
 // Notebook Manager - handles notebook CRUD and folder mapping
-import { TFolder } from 'obsidian';
-import { OpenNotebookClient } from '../api/client';
-import { OpenNotebookSettings } from '../types/settings';
-import { Notebook, NotebookCreate, NotebookUpdate } from '../types/notebook';
+import { App, CachedMetadata, TFile, TFolder, getAllTags } from 'obsidian';
+import { APIError, OpenNotebookClient } from '../api/client';
+import { OpenNotebookSettings, NotebookMappingStrategy } from '../types/settings';
+import { FolderMapping, Notebook, NotebookCreate, NotebookUpdate } from '../types/notebook';
 import { NotebookAdapter } from '../api/adapters/NotebookAdapter';
 import { logger } from '../utils/Logger';
 
 export class NotebookManager {
+  private app: App;
   private client: OpenNotebookClient;
   private settings: OpenNotebookSettings;
+  private persistCallback: () => Promise<void>;
   private notebookCache: Map<string, Notebook> = new Map();
   private lastCacheUpdate: number = 0;
   private readonly CACHE_TTL = 60000; // 1 minute
 
-  constructor(client: OpenNotebookClient, settings: OpenNotebookSettings) {
+  // Notebooks being created on demand, keyed by name (avoids duplicates from parallel syncs)
+  private pendingCreations: Map<string, Promise<string | undefined>> = new Map();
+
+  constructor(client: OpenNotebookClient, settings: OpenNotebookSettings, app: App, persistCallback: () => Promise<void>) {
     this.client = client;
     this.settings = settings;
+    this.app = app;
+    this.persistCallback = persistCallback;
   }
 
   // ============ Mapping Operations ============
@@ -31,6 +38,9 @@ export class NotebookManager {
 
     this.settings.folderToNotebook[normalizedPath] = notebookId;
 
+    // A linked folder no longer needs to opt out of its parent's notebook
+    this.settings.excludedSubfolders = (this.settings.excludedSubfolders || []).filter(path => path !== normalizedPath);
+
     // Update cache
     const notebook = this.notebookCache.get(notebookId);
     if (notebook) {
@@ -59,13 +69,329 @@ export class NotebookManager {
   }
 
   /**
-   * Get notebook ID for a folder path
+   * Follow a renamed or moved folder: its mapping, mappings of its subfolders and their exclusions
+   * Returns true if any setting changed; the caller saves settings
+   */
+  public renameFolder(oldPath: string, newPath: string): boolean {
+    const from = this.normalizePath(oldPath);
+    const to = this.normalizePath(newPath);
+    const rebase = (path: string) => path === from ? to : path.startsWith(from + '/') ? to + path.slice(from.length) : path;
+
+    let changed = false;
+
+    const folderToNotebook: Record<string, string> = {};
+    for (const [path, notebookId] of Object.entries(this.settings.folderToNotebook)) {
+      const renamed = rebase(path);
+      if (renamed !== path) {
+        logger.info(`Folder mapping "${path}" follows the folder to "${renamed}"`);
+        changed = true;
+
+        const notebook = this.notebookCache.get(notebookId);
+        if (notebook) {
+          notebook.localPath = renamed;
+        }
+      }
+      folderToNotebook[renamed] = notebookId;
+    }
+
+    const excludedSubfolders = (this.settings.excludedSubfolders || []).map(rebase);
+    const excludedFolders = (this.settings.excludedFolders || []).map(rebase);
+    changed = changed ||
+      excludedSubfolders.some((path, i) => path !== this.settings.excludedSubfolders[i]) ||
+      excludedFolders.some((path, i) => path !== this.settings.excludedFolders[i]);
+
+    if (changed) {
+      this.settings.folderToNotebook = folderToNotebook;
+      this.settings.excludedSubfolders = excludedSubfolders;
+      this.settings.excludedFolders = excludedFolders;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Get the notebook ID mapped directly to a folder path
+   * Use resolveFolderMapping() to include mappings inherited from parent folders
    */
   public getNotebookForFolder(folderPath: string): string | undefined {
     const normalizedPath = this.normalizePath(folderPath);
     return this.settings.folderToNotebook[normalizedPath];
   }
 
+  /**
+   * Resolve the notebook a folder syncs to: its own mapping, or that of its nearest mapped ancestor
+   * A subfolder linked to another notebook overrides its parent; an excluded subfolder stops the walk
+   */
+  public resolveFolderMapping(folderPath: string): FolderMapping | undefined {
+    return this.resolveFolderMappings(folderPath)[0];
+  }
+
+  /**
+   * Resolve every notebook a folder syncs to, nearest mapping first
+   * Linked ancestors above the nearest mapping only count with inheritParentNotebooks on
+   */
+  public resolveFolderMappings(folderPath: string): FolderMapping[] {
+    const segments = this.normalizePath(folderPath).split('/').filter(Boolean);
+    const excluded = this.settings.excludedSubfolders || [];
+    const mappings: FolderMapping[] = [];
+
+    for (let depth = segments.length; depth > 0; depth--) {
+      const path = segments.slice(0, depth).join('/');
+
+      const notebookId = this.settings.folderToNotebook[path];
+      if (notebookId) {
+        if (!mappings.some(mapping => mapping.notebookId === notebookId)) {
+          mappings.push({ notebookId, folderPath: path, inherited: depth < segments.length });
+        }
+        if (!this.settings.inheritParentNotebooks) {
+          break;
+        }
+        continue;
+      }
+
+      if (excluded.includes(path)) {
+        break;
+      }
+    }
+
+    return mappings;
+  }
+
+  /**
+   * Check if a subfolder is excluded from its parent folder's notebook
+   */
+  public isExcludedSubfolder(folderPath: string): boolean {
+    return (this.settings.excludedSubfolders || []).includes(this.normalizePath(folderPath));
+  }
+
+  /**
+   * Stop a subfolder (and its own subfolders) from inheriting its parent folder's notebook
+   */
+  public excludeSubfolder(folderPath: string): void {
+    const normalizedPath = this.normalizePath(folderPath);
+    if (!this.isExcludedSubfolder(normalizedPath)) {
+      logger.info(`Excluding folder "${normalizedPath}" from its parent notebook`);
+      this.settings.excludedSubfolders = [...(this.settings.excludedSubfolders || []), normalizedPath];
+    }
+  }
+
+  /**
+   * Let an excluded subfolder inherit its parent folder's notebook again
+   */
+  public includeSubfolder(folderPath: string): void {
+    const normalizedPath = this.normalizePath(folderPath);
+    logger.info(`Including folder "${normalizedPath}" in its parent notebook`);
+    this.settings.excludedSubfolders = (this.settings.excludedSubfolders || []).filter(path => path !== normalizedPath);
+  }
+
+  /**
+   * Get notebook ID for a file using the configured mapping strategy
+   * Only returns notebooks that are already known - see resolveNotebookForFile()
+   */
+  public getNotebookForFile(file: TFile): string | undefined {
+    const name = this.getNotebookNameForFile(file);
+    if (name) {
+      const notebookId = this.settings.notebookNameMappings?.[name];
+      if (notebookId) {
+        return notebookId;
+      }
+    }
+
+    return file.parent ? this.resolveFolderMapping(file.parent.path)?.notebookId : undefined;
+  }
+
+  /**
+   * Resolve the notebook ID for a file, creating the notebook if a tag or
+   * property names one that doesn't exist yet
+   */
+  public async resolveNotebookForFile(file: TFile, createIfMissing: boolean = true): Promise<string | undefined> {
+    return (await this.resolveNotebooksForFile(file, createIfMissing))[0];
+  }
+
+  /**
+   * Resolve every notebook a file belongs to, the first tag, property value or nearest folder link first
+   * Several tags, property values or nested folder links make the file a member of several notebooks
+   * Under the folder strategy, notebook tags and properties add memberships to the folder's notebook
+   */
+  public async resolveNotebooksForFile(file: TFile, createIfMissing: boolean = true): Promise<string[]> {
+    const names = this.getNotebookNamesForFile(file);
+    const notebookIds: string[] = [];
+
+    if (names.length === 0) {
+      // No tag/property - fall back to the folder mappings, inherited from parent folders
+      notebookIds.push(...(file.parent ? this.resolveFolderMappings(file.parent.path).map(mapping => mapping.notebookId) : []));
+
+      // Files outside linked folders stay unsynced, whatever else they declare
+      if (notebookIds.length === 0 || this.settings.mappingStrategy !== NotebookMappingStrategy.FOLDER) {
+        return notebookIds;
+      }
+      names.push(...this.getAdditionalNotebookNames(file));
+    }
+
+    for (const name of names) {
+      const notebookId = await this.resolveNamedNotebook(name, createIfMissing, file);
+      if (notebookId && !notebookIds.includes(notebookId)) {
+        notebookIds.push(notebookId);
+      }
+    }
+    return notebookIds;
+  }
+
+  /**
+   * Resolve a notebook named by a tag or property, creating it if allowed
+   * Network errors are thrown, so an unreachable server isn't mistaken for "no notebook"
+   */
+  private async resolveNamedNotebook(name: string, createIfMissing: boolean, file: TFile): Promise<string | undefined> {
+    const knownId = this.settings.notebookNameMappings?.[name];
+    if (knownId) {
+      return knownId;
+    }
+
+    const pending = this.pendingCreations.get(name);
+    if (pending) {
+      return pending;
+    }
+
+    const lookup = this.findOrCreateNamedNotebook(name, createIfMissing);
+    this.pendingCreations.set(name, lookup);
+
+    try {
+      return await lookup;
+    } catch (error) {
+      if (error instanceof APIError && error.isNetworkError()) {
+        throw error;
+      }
+      logger.error(`Failed to resolve notebook "${name}" for ${file.path}`, error);
+      return undefined;
+    } finally {
+      this.pendingCreations.delete(name);
+    }
+  }
+
+  /**
+   * Get the notebook name a file declares through its tag or frontmatter property
+   * Returns undefined for the folder strategy or when the file declares none
+   */
+  public getNotebookNameForFile(file: TFile): string | undefined {
+    return this.getNotebookNamesForFile(file)[0];
+  }
+
+  /**
+   * Get every notebook name a file declares through its tags or a list-valued frontmatter property
+   */
+  public getNotebookNamesForFile(file: TFile): string[] {
+    const strategy = this.settings.mappingStrategy;
+    if (strategy === NotebookMappingStrategy.FOLDER) {
+      return [];
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) {
+      return [];
+    }
+
+    const names: string[] = [];
+    const add = (name: string) => {
+      if (name && !names.includes(name)) {
+        names.push(name);
+      }
+    };
+
+    if (strategy === NotebookMappingStrategy.TAG) {
+      this.getTagNotebookNames(cache).forEach(add);
+    } else {
+      this.getPropertyNotebookNames(cache).forEach(add);
+    }
+    return names;
+  }
+
+  /**
+   * Get the notebook names a file declares through both tags and its property, for the folder strategy
+   * Its folder stays the main notebook; these are extra memberships
+   */
+  private getAdditionalNotebookNames(file: TFile): string[] {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) {
+      return [];
+    }
+
+    const names = [...this.getTagNotebookNames(cache), ...this.getPropertyNotebookNames(cache)];
+    return names.filter((name, index) => name && names.indexOf(name) === index);
+  }
+
+  /**
+   * Get the notebook names from tags with the notebook tag prefix
+   */
+  private getTagNotebookNames(cache: CachedMetadata): string[] {
+    const prefix = this.settings.notebookTagPrefix.replace(/^#/, '');
+    if (!prefix) {
+      return [];
+    }
+
+    const names: string[] = [];
+    for (const tag of getAllTags(cache) || []) {
+      const bare = tag.replace(/^#/, '');
+      if (bare.startsWith(prefix) && bare.length > prefix.length) {
+        names.push(bare.slice(prefix.length));
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Get the notebook names from the notebook property, a single value or a list
+   */
+  private getPropertyNotebookNames(cache: CachedMetadata): string[] {
+    const names: string[] = [];
+    const value = cache.frontmatter?.[this.settings.notebookPropertyName];
+    for (const entry of Array.isArray(value) ? value : [value]) {
+      if (typeof entry === 'string') {
+        // Allow link-style values such as "[[Research]]"
+        names.push(entry.replace(/^\[\[|\]\]$/g, '').trim());
+      }
+    }
+    return names;
+  }
+
+  /**
+   * Find a notebook by name on the server, creating it when missing
+   */
+  private async findOrCreateNamedNotebook(name: string, createIfMissing: boolean): Promise<string | undefined> {
+    const notebooks = await this.getNotebooks();
+    const existing = notebooks.find(nb => nb.name === name && !nb.archived);
+
+    let notebookId: string;
+    if (existing) {
+      notebookId = existing.id;
+    } else if (createIfMissing) {
+      const source = this.settings.mappingStrategy === NotebookMappingStrategy.TAG
+        ? `tag #${this.settings.notebookTagPrefix.replace(/^#/, '')}${name}`
+        : `property "${this.settings.notebookPropertyName}: ${name}"`;
+      const notebook = await this.createNotebook({
+        name,
+        description: `Synced from Obsidian ${source}`
+      });
+      this.client.clearNotebooksCache();
+      notebookId = notebook.id;
+      logger.info(`Created notebook "${name}" on demand (${notebookId})`);
+    } else {
+      return undefined;
+    }
+
+    if (!this.settings.notebookNameMappings) {
+      this.settings.notebookNameMappings = {};
+    }
+    this.settings.notebookNameMappings[name] = notebookId;
+
+    // Saved right away, so a notebook created on demand is found again after a restart
+    try {
+      await this.persistCallback();
+    } catch (error) {
+      logger.warn(`Could not save the notebook mapping for "${name}"`, error);
+    }
+    return notebookId;
+  }
+
   /**
    * Get folder path for a notebook ID
    */
@@ -210,6 +536,12 @@ export class NotebookManager {
         await this.unmapFolder(folderPath);
       }
 
+      // Forget tag/property names that pointed at it
+      const nameMappings = this.settings.notebookNameMappings || {};
+      Object.keys(nameMappings)
+        .filter(name => nameMappings[name] === id)
+        .forEach(name => delete nameMappings[name]);
+
       return true;
     } catch (error) {
       logger.error(`Failed to delete notebook ${id}`, error);
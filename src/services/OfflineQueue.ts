@@ -1,5 +1,5 @@
 // Offline queue service for handling sync operations when connection fails
-import { OpenNotebookClient } from '../api/client';
+import { OpenNotebookClient, APIError } from '../api/client';
 import { SyncOperation } from '../types/sync';
 import { logger } from '../utils/Logger';
 import { NoticeHelper } from '../utils/NoticeHelper';
@@ -9,6 +9,7 @@ export class OfflineQueue {
   private isOnline: boolean = true;
   private processing: boolean = false;
   private processInterval: number | null = null;
+  private replayHandler: ((operation: SyncOperation) => Promise<void>) | null = null;
 
   constructor(
     private client: OpenNotebookClient,
@@ -17,37 +18,52 @@ export class OfflineQueue {
 
   /**
    * Initialize queue from persisted data
+   * Processing is left to the caller, since file operations need the vault to be loaded
    */
-  public async initialize(savedQueue: SyncOperation[]): Promise<void> {
+  public initialize(savedQueue: SyncOperation[]): void {
     this.queue = savedQueue || [];
+
+    // An operation interrupted mid-flight is retried from scratch
+    this.queue.forEach(op => {
+      if (op.status === 'processing') {
+        op.status = 'pending';
+      }
+    });
+
     logger.info(`Offline queue initialized with ${this.queue.length} operations`);
+  }
 
-    // Start processing if there are queued operations
-    if (this.queue.length > 0) {
-      await this.processQueue();
-    }
+  /**
+   * Set the handler that replays file operations (those with a localPath)
+   */
+  public setReplayHandler(handler: (operation: SyncOperation) => Promise<void>): void {
+    this.replayHandler = handler;
   }
 
   /**
    * Add operation to queue
    */
   public async enqueue(operation: SyncOperation): Promise<void> {
-    // Check if operation already exists
-    const existing = this.queue.find(op =>
-      op.resourceType === operation.resourceType &&
-      op.resourceId === operation.resourceId &&
-      op.type === operation.type
-    );
-
-    if (existing) {
-      // Update existing operation
-      existing.data = operation.data;
-      existing.timestamp = operation.timestamp;
-      logger.debug(`Updated existing operation in queue: ${operation.id}`);
+    if (operation.localPath) {
+      this.coalesceFileOperation(operation);
     } else {
-      // Add new operation
-      this.queue.push(operation);
-      logger.info(`Enqueued operation: ${operation.type} ${operation.resourceType} ${operation.resourceId || operation.localPath}`);
+      // Check if operation already exists
+      const existing = this.queue.find(op =>
+        op.resourceType === operation.resourceType &&
+        op.resourceId === operation.resourceId &&
+        op.type === operation.type
+      );
+
+      if (existing) {
+        // Update existing operation
+        existing.data = operation.data;
+        existing.timestamp = operation.timestamp;
+        logger.debug(`Updated existing operation in queue: ${operation.id}`);
+      } else {
+        // Add new operation
+        this.queue.push(operation);
+        logger.info(`Enqueued operation: ${operation.type} ${operation.resourceType} ${operation.resourceId}`);
+      }
     }
 
     await this.saveQueue();
@@ -58,6 +74,54 @@ export class OfflineQueue {
     }
   }
 
+  /**
+   * Fold a file operation into the operations already queued for the same file
+   * Content syncs replay the file's current state, so only the latest one is kept
+   */
+  private coalesceFileOperation(operation: SyncOperation): void {
+    const queued = this.queue.filter(op =>
+      op.localPath === operation.localPath && op.status !== 'processing'
+    );
+    const contentOp = queued.find(op => op.type === 'create' || op.type === 'update');
+
+    switch (operation.type) {
+      case 'create':
+      case 'update':
+        // A content sync also sends the current title, so it supersedes a queued rename
+        this.queue = this.queue.filter(op => !(queued.includes(op) && op.type === 'rename'));
+
+        if (contentOp) {
+          contentOp.resourceId = operation.resourceId || contentOp.resourceId;
+          contentOp.notebookId = operation.notebookId;
+          contentOp.data = operation.data || contentOp.data;
+          contentOp.timestamp = operation.timestamp;
+          logger.debug(`Coalesced ${operation.type} for ${operation.localPath}`);
+          return;
+        }
+        break;
+
+      case 'rename':
+        if (contentOp || queued.some(op => op.type === 'rename')) {
+          logger.debug(`Rename of ${operation.localPath} already covered by a queued operation`);
+          return;
+        }
+        break;
+
+      case 'delete':
+        // Earlier syncs of the file are moot; deletes of earlier files at this path still apply
+        this.queue = this.queue.filter(op => !(queued.includes(op) && op.type !== 'delete'));
+
+        if (!operation.resourceId || queued.some(op => op.type === 'delete' && op.resourceId === operation.resourceId)) {
+          logger.debug(`Dropped queued operations for deleted file ${operation.localPath}`);
+          return;
+        }
+        break;
+    }
+
+    this.queue.push(operation);
+    logger.info(`Enqueued operation: ${operation.type} ${operation.resourceType} ${operation.localPath}`);
+  }
+
   /**
    * Process all queued operations
    */
@@ -78,19 +142,33 @@ export class OfflineQueue {
     const pendingOps = this.queue.filter(op => op.status === 'pending' || op.status === 'failed');
 
     for (const operation of pendingOps) {
+      // Coalesced away by a later change while an earlier operation was running
+      if (!this.queue.includes(operation)) {
+        continue;
+      }
+
       try {
         await this.processOperation(operation);
+        this.isOnline = true;
       } catch (error) {
+        if (error instanceof APIError && error.isNetworkError()) {
+          // Still unreachable - doesn't count against the retry limit, try again later
+          logger.info(`Server unreachable, keeping ${this.queue.length} operations queued`);
+          operation.status = 'pending';
+          operation.attempts--;
+          this.isOnline = false;
+          break;
+        }
+
         logger.error(`Failed to process operation ${operation.id}`, error);
         operation.status = 'failed';
-        operation.attempts++;
         operation.error = error instanceof Error ? error.message : 'Unknown error';
 
         // Remove if too many attempts
         if (operation.attempts >= 3) {
           logger.warn(`Operation ${operation.id} failed after ${operation.attempts} attempts, removing from queue`);
           this.queue = this.queue.filter(op => op.id !== operation.id);
-          NoticeHelper.error(`Sync operation failed: ${operation.type} ${operation.resourceType}`);
+          NoticeHelper.error(`Sync operation failed: ${operation.type} ${operation.localPath || operation.resourceType}`);
         }
       }
     }
@@ -108,21 +186,25 @@ export class OfflineQueue {
     operation.status = 'processing';
     operation.attempts++;
 
-    logger.debug(`Processing operation: ${operation.type} ${operation.resourceType} ${operation.resourceId}`);
+    logger.debug(`Processing operation: ${operation.type} ${operation.resourceType} ${operation.resourceId || operation.localPath}`);
 
     try {
-      switch (operation.resourceType) {
-        case 'source':
-          await this.processSourceOperation(operation);
-          break;
-        case 'note':
-          await this.processNoteOperation(operation);
-          break;
-        case 'notebook':
-          await this.processNotebookOperation(operation);
-          break;
-        default:
-          throw new Error(`Unknown resource type: ${operation.resourceType}`);
+      if (operation.localPath && this.replayHandler) {
+        await this.replayHandler(operation);
+      } else {
+        switch (operation.resourceType) {
+          case 'source':
+            await this.processSourceOperation(operation);
+            break;
+          case 'note':
+            await this.processNoteOperation(operation);
+            break;
+          case 'notebook':
+            await this.processNotebookOperation(operation);
+            break;
+          default:
+            throw new Error(`Unknown resource type: ${operation.resourceType}`);
+        }
       }
 
       // Mark as completed and remove from queue
@@ -222,6 +304,19 @@ export class OfflineQueue {
     await this.processQueue();
   }
 
+  /**
+   * Drop a specific operation without running it
+   */
+  public async removeOperation(operationId: string): Promise<void> {
+    const before = this.queue.length;
+    this.queue = this.queue.filter(op => op.id !== operationId);
+
+    if (this.queue.length !== before) {
+      await this.saveQueue();
+      logger.info(`Dropped operation ${operationId} from queue`);
+    }
+  }
+
   /**
    * Clear all operations from queue
    */
@@ -245,6 +340,30 @@ export class OfflineQueue {
     return [...this.queue];
   }
 
+  /**
+   * Check if a file has queued operations
+   */
+  public hasOperation(localPath: string): boolean {
+    return this.queue.some(op => op.localPath === localPath);
+  }
+
+  /**
+   * Follow a renamed file
+   */
+  public async renamePath(oldPath: string, newPath: string): Promise<void> {
+    let changed = false;
+    this.queue.forEach(op => {
+      if (op.localPath === oldPath) {
+        op.localPath = newPath;
+        changed = true;
+      }
+    });
+
+    if (changed) {
+      await this.saveQueue();
+    }
+  }
+
   /**
    * Check if queue is processing
    */
@@ -252,6 +371,13 @@ export class OfflineQueue {
     return this.processing;
   }
 
+  /**
+   * Get online status
+   */
+  public getOnlineStatus(): boolean {
+    return this.isOnline;
+  }
+
   /**
    * Set online status
    */
@@ -0,0 +1,242 @@
+// Sidecar store keeping sync metadata in a plugin-owned JSON index instead of frontmatter
+import { App, TFile, normalizePath } from 'obsidian';
+import { NoteFrontmatter } from '../types/note';
+import { logger } from '../utils/Logger';
+import { NoticeHelper } from '../utils/NoticeHelper';
+
+interface SidecarEntry {
+  ctime: number; // Creation time, to find the file again after a rename the plugin didn't see
+  metadata: NoteFrontmatter;
+}
+
+interface SidecarIndex {
+  version: number;
+  files: Record<string, SidecarEntry>;
+}
+
+const INDEX_VERSION = 1;
+
+// Changes are written in batches, not on every update
+const SAVE_DELAY_MS = 2000;
+
+export class SidecarStore {
+  private app: App;
+  private path: string;
+  private files: Record<string, SidecarEntry> = {};
+  private loading: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private saveTimer: number | null = null;
+  private writable = true; // False when the index couldn't be read or backed up, so it's never overwritten
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = normalizePath(path);
+  }
+
+  /**
+   * Get the metadata stored for a file, or null if it has none
+   */
+  public async get(filePath: string): Promise<NoteFrontmatter | null> {
+    await this.ensureLoaded();
+    return this.files[filePath]?.metadata ?? null;
+  }
+
+  /**
+   * Merge metadata into a file's entry; undefined values remove keys
+   */
+  public async update(file: TFile, metadata: Partial<NoteFrontmatter>): Promise<void> {
+    await this.ensureLoaded();
+
+    const merged: Record<string, any> = { ...this.files[file.path]?.metadata };
+    Object.entries(metadata).forEach(([key, value]) => {
+      if (value !== undefined) {
+        merged[key] = value;
+      } else {
+        delete merged[key];
+      }
+    });
+
+    if (Object.keys(merged).length === 0) {
+      delete this.files[file.path];
+    } else {
+      this.files[file.path] = { ctime: file.stat.ctime, metadata: merged };
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Remove a file's entry
+   */
+  public async remove(filePath: string): Promise<void> {
+    await this.ensureLoaded();
+    if (this.files[filePath]) {
+      delete this.files[filePath];
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Move an entry to a renamed file
+   */
+  public async rename(oldPath: string, newPath: string): Promise<void> {
+    await this.ensureLoaded();
+    const entry = this.files[oldPath];
+    if (entry) {
+      delete this.files[oldPath];
+      this.files[newPath] = entry;
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Move the entries of every file in a renamed folder, in one write
+   */
+  public async renameFolder(oldPath: string, newPath: string): Promise<number> {
+    await this.ensureLoaded();
+
+    let moved = 0;
+    for (const path of Object.keys(this.files)) {
+      if (path.startsWith(oldPath + '/')) {
+        this.files[newPath + path.slice(oldPath.length)] = this.files[path];
+        delete this.files[path];
+        moved++;
+      }
+    }
+
+    if (moved > 0) {
+      this.scheduleSave();
+    }
+    return moved;
+  }
+
+  /**
+   * Get the paths that have an entry
+   */
+  public async getPaths(): Promise<string[]> {
+    await this.ensureLoaded();
+    return Object.keys(this.files);
+  }
+
+  /**
+   * Re-attach entries whose file was moved while the plugin wasn't running
+   * An orphaned entry moves to the only unindexed file with the same creation time
+   */
+  public async reconcile(files: TFile[]): Promise<number> {
+    await this.ensureLoaded();
+
+    const existing = new Set(files.map(file => file.path));
+    const orphans = Object.keys(this.files).filter(path => !existing.has(path));
+    if (orphans.length === 0) {
+      return 0;
+    }
+
+    const unindexed = files.filter(file => !this.files[file.path]);
+    let moved = 0;
+
+    for (const orphanPath of orphans) {
+      const candidates = unindexed.filter(file => file.stat.ctime === this.files[orphanPath].ctime);
+      if (candidates.length !== 1) {
+        continue;
+      }
+
+      logger.info(`Sync metadata for ${orphanPath} follows the file to ${candidates[0].path}`);
+      this.files[candidates[0].path] = this.files[orphanPath];
+      delete this.files[orphanPath];
+      unindexed.splice(unindexed.indexOf(candidates[0]), 1);
+      moved++;
+    }
+
+    if (moved > 0) {
+      this.scheduleSave();
+    }
+    return moved;
+  }
+
+  /**
+   * Load the index once, on first use
+   */
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Read the index from disk
+   * An unreadable index is backed up before anything is written over it
+   */
+  private async load(): Promise<void> {
+    let raw: string | null = null;
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        raw = await this.app.vault.adapter.read(this.path);
+        const index = JSON.parse(raw) as SidecarIndex;
+        this.files = index.files || {};
+        logger.info(`Loaded sync metadata for ${Object.keys(this.files).length} files`);
+      }
+    } catch (error) {
+      logger.error(`Failed to load sync metadata from ${this.path}`, error);
+      await this.backUp(raw);
+    }
+  }
+
+  /**
+   * Keep a copy of an index that couldn't be parsed, or stop writing if there's nothing to copy
+   */
+  private async backUp(raw: string | null): Promise<void> {
+    const backupPath = `${this.path}.${Date.now()}.bak`;
+    try {
+      if (raw === null) {
+        throw new Error('the index could not be read');
+      }
+      await this.app.vault.adapter.write(backupPath, raw);
+      logger.warn(`Backed up unreadable sync metadata to ${backupPath}`);
+      NoticeHelper.warn(`Sync metadata couldn't be read and was backed up to ${backupPath}`);
+    } catch (error) {
+      this.writable = false;
+      logger.error(`Failed to back up sync metadata, leaving ${this.path} untouched`, error);
+      NoticeHelper.error('Sync metadata couldn\'t be read - changes to it won\'t be saved until Obsidian restarts');
+    }
+  }
+
+  /**
+   * Write pending changes now (on unload, and before relying on them being on disk)
+   */
+  public flush(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    if (!this.writable) {
+      return this.saving;
+    }
+
+    const index: SidecarIndex = { version: INDEX_VERSION, files: this.files };
+    const data = JSON.stringify(index);
+
+    this.saving = this.saving.then(async () => {
+      try {
+        await this.app.vault.adapter.write(this.path, data);
+      } catch (error) {
+        logger.error(`Failed to save sync metadata to ${this.path}`, error);
+      }
+    });
+    return this.saving;
+  }
+
+  /**
+   * Save shortly after the last change
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+  }
+}
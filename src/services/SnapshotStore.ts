@@ -0,0 +1,107 @@
+// Snapshot store for the last-synced content of each file (the base for three-way merges)
+import { App, normalizePath } from 'obsidian';
+import { logger } from '../utils/Logger';
+
+interface Snapshot {
+  path: string;
+  content: string;
+  savedAt: number;
+}
+
+export class SnapshotStore {
+  private app: App;
+  private dir: string;
+
+  constructor(app: App, dir: string) {
+    this.app = app;
+    this.dir = normalizePath(dir);
+  }
+
+  /**
+   * Save the content a file had when it was last synced
+   */
+  public async save(filePath: string, content: string): Promise<void> {
+    try {
+      const adapter = this.app.vault.adapter;
+      if (!(await adapter.exists(this.dir))) {
+        await adapter.mkdir(this.dir);
+      }
+
+      const snapshot: Snapshot = { path: filePath, content, savedAt: Date.now() };
+      await adapter.write(this.getSnapshotPath(filePath), JSON.stringify(snapshot));
+    } catch (error) {
+      // A missing snapshot only downgrades the next merge to two-way
+      logger.warn(`Failed to save sync snapshot for ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Load the last-synced content of a file, or null if none was stored
+   */
+  public async load(filePath: string): Promise<string | null> {
+    try {
+      const snapshotPath = this.getSnapshotPath(filePath);
+      if (!(await this.app.vault.adapter.exists(snapshotPath))) {
+        return null;
+      }
+
+      const snapshot = JSON.parse(await this.app.vault.adapter.read(snapshotPath)) as Snapshot;
+
+      // Guard against hash collisions between paths
+      return snapshot.path === filePath ? snapshot.content : null;
+    } catch (error) {
+      logger.warn(`Failed to load sync snapshot for ${filePath}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if a snapshot exists for a file
+   */
+  public async has(filePath: string): Promise<boolean> {
+    return (await this.load(filePath)) !== null;
+  }
+
+  /**
+   * Remove a file's snapshot
+   */
+  public async remove(filePath: string): Promise<void> {
+    try {
+      const snapshotPath = this.getSnapshotPath(filePath);
+      if (await this.app.vault.adapter.exists(snapshotPath)) {
+        await this.app.vault.adapter.remove(snapshotPath);
+      }
+    } catch (error) {
+      logger.warn(`Failed to remove sync snapshot for ${filePath}`, error);
+    }
+  }
+
+  /**
+   * Move a snapshot to a renamed file
+   */
+  public async rename(oldPath: string, newPath: string): Promise<void> {
+    const content = await this.load(oldPath);
+    if (content === null) {
+      return;
+    }
+
+    await this.save(newPath, content);
+    await this.remove(oldPath);
+  }
+
+  /**
+   * Map a vault path to a snapshot file name (two 32-bit hashes)
+   */
+  private getSnapshotPath(filePath: string): string {
+    let djb2 = 5381;
+    let sdbm = 0;
+    for (let i = 0; i < filePath.length; i++) {
+      const code = filePath.charCodeAt(i);
+      djb2 = ((djb2 << 5) + djb2 + code) | 0;
+      sdbm = (code + (sdbm << 6) + (sdbm << 16) - sdbm) | 0;
+    }
+
+    const hash = (djb2 >>> 0).toString(16).padStart(8, '0') + (sdbm >>> 0).toString(16).padStart(8, '0');
+    return `${this.dir}/${hash}.json`;
+  }
+}
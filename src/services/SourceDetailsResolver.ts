@@ -0,0 +1,106 @@
+// Source details - the title and topics a note is uploaded with, read from its properties, headings and tags
+import { App, TFile, getAllTags, parseFrontMatterAliases } from 'obsidian';
+import { OpenNotebookSettings, SourceTitleField } from '../types/settings';
+import { SourceDetails } from '../types/source';
+
+export class SourceDetailsResolver {
+  private app: App;
+  private settings: OpenNotebookSettings;
+
+  constructor(app: App, settings: OpenNotebookSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Resolve a note's title and topics
+   * previousTopics keeps the spelling of topics that were turned into tags on import
+   */
+  public resolve(file: TFile, previousTopics: string[] = []): SourceDetails {
+    return {
+      title: this.getTitle(file),
+      topics: this.getTopics(file, previousTopics)
+    };
+  }
+
+  /**
+   * Get the title from the first configured field that has one, or the file name
+   */
+  public getTitle(file: TFile): string {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) {
+      return file.basename;
+    }
+
+    for (const field of this.settings.sourceTitleOrder || []) {
+      let title: string | undefined;
+
+      if (field === SourceTitleField.PROPERTY) {
+        const value = cache.frontmatter?.[this.settings.sourceTitleProperty];
+        title = typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+      } else if (field === SourceTitleField.HEADING) {
+        title = cache.headings?.find(heading => heading.level === 1)?.heading;
+      } else if (field === SourceTitleField.ALIAS) {
+        title = parseFrontMatterAliases(cache.frontmatter)?.[0];
+      }
+
+      if (title && title.trim()) {
+        return title.trim();
+      }
+    }
+
+    return file.basename;
+  }
+
+  /**
+   * Get the topics from the note's tags and topic properties, without duplicates
+   * Notebook routing tags are left out
+   */
+  public getTopics(file: TFile, previousTopics: string[] = []): string[] {
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) {
+      return [];
+    }
+
+    const topics: string[] = [];
+    const add = (topic: string) => {
+      if (topic && !topics.some(existing => existing.toLowerCase() === topic.toLowerCase())) {
+        topics.push(topic);
+      }
+    };
+
+    if (this.settings.tagsAsTopics) {
+      const notebookPrefix = this.settings.notebookTagPrefix.replace(/^#/, '');
+      for (const tag of getAllTags(cache) || []) {
+        const bare = tag.replace(/^#/, '');
+        if (notebookPrefix && bare.startsWith(notebookPrefix)) {
+          continue;
+        }
+        // Tags are case-insensitive; an imported topic keeps its original spelling
+        const previous = previousTopics.find(topic => this.topicToTag(topic).toLowerCase() === bare.toLowerCase());
+        add(previous || bare);
+      }
+    }
+
+    for (const property of this.settings.topicProperties || []) {
+      const value = cache.frontmatter?.[property];
+      for (const entry of Array.isArray(value) ? value : [value]) {
+        if (typeof entry === 'string') {
+          // Allow link-style values such as "[[Machine Learning]]"
+          add(entry.replace(/^\[\[|\]\]$/g, '').trim());
+        }
+      }
+    }
+
+    return topics;
+  }
+
+  /**
+   * Turn a topic into a valid tag: spaces become dashes, characters tags can't hold are dropped
+   */
+  public topicToTag(topic: string): string {
+    const tag = topic.trim().replace(/\s+/g, '-').replace(/[#,;:!?"'()[\]{}<>@$%^&*+=|\\~`.]/g, '');
+    // Purely numeric tags aren't allowed
+    return /^\d+$/.test(tag) ? '' : tag;
+  }
+}
@@ -0,0 +1,147 @@
+// Sync journal - a bounded, persisted history of what each sync did to each file
+import { App, normalizePath } from 'obsidian';
+import { SyncJournalEntry } from '../types/sync';
+import { logger } from '../utils/Logger';
+
+// Oldest entries are dropped past either limit
+const MAX_ENTRIES = 1000;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Entries are written in batches, not on every sync
+const SAVE_DELAY_MS = 2000;
+
+export class SyncJournal {
+  private app: App;
+  private path: string;
+  private entries: SyncJournalEntry[] = [];
+  private listeners: Set<() => void> = new Set();
+  private saveTimer: number | null = null;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(app: App, path: string) {
+    this.app = app;
+    this.path = normalizePath(path);
+  }
+
+  /**
+   * Read the journal from disk
+   */
+  public async load(): Promise<void> {
+    try {
+      if (await this.app.vault.adapter.exists(this.path)) {
+        const loaded = JSON.parse(await this.app.vault.adapter.read(this.path)) as SyncJournalEntry[];
+        // Entries recorded before loading finished are newer than the stored ones
+        this.entries = this.prune([...this.entries, ...(Array.isArray(loaded) ? loaded : [])]);
+        logger.info(`Loaded ${this.entries.length} sync journal entries`);
+        this.notify();
+      }
+    } catch (error) {
+      logger.error(`Failed to load sync journal from ${this.path}`, error);
+    }
+  }
+
+  /**
+   * Record what a sync did to a file
+   * Repeating the file's last skip only moves it to the top, so saves of a skipped file don't flood the journal
+   */
+  public record(entry: Omit<SyncJournalEntry, 'id' | 'timestamp'>): void {
+    const latest = this.getLatest(entry.filePath);
+    const entries = latest && entry.action === 'skip' && latest.action === 'skip' && latest.message === entry.message
+      ? this.entries.filter(e => e !== latest)
+      : this.entries;
+
+    this.entries = this.prune([{
+      ...entry,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      timestamp: Date.now()
+    }, ...entries]);
+
+    this.scheduleSave();
+    this.notify();
+  }
+
+  /**
+   * Get all entries, newest first
+   */
+  public getEntries(): SyncJournalEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Get the newest entry for a file
+   */
+  public getLatest(filePath: string): SyncJournalEntry | undefined {
+    return this.entries.find(entry => entry.filePath === filePath);
+  }
+
+  /**
+   * Remove every entry
+   */
+  public async clear(): Promise<void> {
+    this.entries = [];
+    this.notify();
+    await this.flush();
+  }
+
+  /**
+   * Get notified whenever entries change; returns a function that unsubscribes
+   */
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Write pending entries now (on unload)
+   */
+  public flush(): Promise<void> {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    const data = JSON.stringify(this.entries);
+    this.saving = this.saving.then(async () => {
+      try {
+        await this.app.vault.adapter.write(this.path, data);
+      } catch (error) {
+        logger.error(`Failed to save sync journal to ${this.path}`, error);
+      }
+    });
+    return this.saving;
+  }
+
+  /**
+   * Save shortly after the last change
+   */
+  private scheduleSave(): void {
+    if (this.saveTimer !== null) {
+      window.clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.flush();
+    }, SAVE_DELAY_MS);
+  }
+
+  /**
+   * Drop entries past the size and age limits
+   */
+  private prune(entries: SyncJournalEntry[]): SyncJournalEntry[] {
+    const cutoff = Date.now() - MAX_AGE_MS;
+    return entries.filter(entry => entry.timestamp >= cutoff).slice(0, MAX_ENTRIES);
+  }
+
+  /**
+   * Tell listeners (the history view) that entries changed
+   */
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        logger.error('Sync journal listener failed', error);
+      }
+    });
+  }
+}
@@ -1,7 +1,7 @@
 // Settings tab for Open Notebook plugin
 import { App, PluginSettingTab, Setting, Notice, Modal } from 'obsidian';
 import OpenNotebookPlugin from '../main';
-import { NotebookMappingStrategy, SyncMode, ConflictResolution } from '../types/settings';
+import { NotebookMappingStrategy, SyncMode, SyncTarget, ConflictResolution, LinkFormat, MetadataStorage, ReplacedSourceInsights, SourceTitleField } from '../types/settings';
 import { OpenNotebookClient } from '../api/client';
 import { Feature, FeatureDetector } from '../services/FeatureDetector';
 import { logger } from '../utils/Logger';
@@ -348,13 +348,24 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
         .onChange(async (value) => {
           this.plugin.settings.mappingStrategy = value as NotebookMappingStrategy;
           await this.plugin.saveSettings();
+          this.display(); // Refresh to show strategy-specific settings
+        }));
+
+    new Setting(containerEl)
+      .setName('Nested Links Add Notebooks')
+      .setDesc('A subfolder linked to its own notebook also syncs to the notebooks of its linked parent folders, as one shared source. Off: the subfolder\'s notebook replaces its parent\'s.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.inheritParentNotebooks)
+        .onChange(async (value) => {
+          this.plugin.settings.inheritParentNotebooks = value;
+          await this.plugin.saveSettings();
         }));
 
     // Strategy-specific settings
     if (this.plugin.settings.mappingStrategy === NotebookMappingStrategy.TAG) {
       new Setting(containerEl)
         .setName('Notebook Tag Prefix')
-        .setDesc('Prefix for notebook tags (e.g., "on-notebook/" for tags like #on-notebook/research)')
+        .setDesc('Prefix for notebook tags (e.g., "on-notebook/" for tags like #on-notebook/research). Notebooks are created on demand; files without a tag fall back to folder links.')
         .addText(text => text
           .setPlaceholder('on-notebook/')
           .setValue(this.plugin.settings.notebookTagPrefix)
@@ -367,7 +378,7 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
     if (this.plugin.settings.mappingStrategy === NotebookMappingStrategy.PROPERTY) {
       new Setting(containerEl)
         .setName('Notebook Property Name')
-        .setDesc('Frontmatter property name for notebook (e.g., "notebook")')
+        .setDesc('Frontmatter property name for notebook (e.g., "notebook"). Notebooks are created on demand; files without the property fall back to folder links.')
         .addText(text => text
           .setPlaceholder('notebook')
           .setValue(this.plugin.settings.notebookPropertyName)
@@ -392,6 +403,7 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
         .onChange(async (value) => {
           this.plugin.settings.syncMode = value as SyncMode;
           await this.plugin.saveSettings();
+          this.plugin.getSyncScheduler().restart();
           this.display(); // Refresh to show/hide related settings
         }));
 
@@ -414,7 +426,7 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
     if (this.plugin.settings.syncMode === SyncMode.INTERVAL) {
       new Setting(containerEl)
         .setName('Sync Interval')
-        .setDesc('Minutes between automatic syncs')
+        .setDesc('Minutes between syncs of changed files')
         .addText(text => text
           .setPlaceholder('5')
           .setValue(String(this.plugin.settings.syncIntervalMinutes))
@@ -423,10 +435,23 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
             if (!isNaN(num) && num > 0) {
               this.plugin.settings.syncIntervalMinutes = num;
               await this.plugin.saveSettings();
+              this.plugin.getSyncScheduler().restart();
             }
           }));
     }
 
+    new Setting(containerEl)
+      .setName('Sync Notes As')
+      .setDesc('Sources are recreated on every change; notes are updated in place, and notes created in Open Notebook can be pulled into the linked folder')
+      .addDropdown(dropdown => dropdown
+        .addOption(SyncTarget.SOURCES, 'Sources')
+        .addOption(SyncTarget.NOTES, 'Notes')
+        .setValue(this.plugin.settings.syncTarget)
+        .onChange(async (value) => {
+          this.plugin.settings.syncTarget = value as SyncTarget;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Conflict Resolution')
       .setDesc('What to do when both local and remote versions have changed')
@@ -440,6 +465,19 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Insights of Replaced Sources')
+      .setDesc('Changed content replaces a source. Choose what happens to the insights generated for the old one. Regenerating runs the model again for every replaced source.')
+      .addDropdown(dropdown => dropdown
+        .addOption(ReplacedSourceInsights.COPY_TO_NOTES, 'Copy to notes')
+        .addOption(ReplacedSourceInsights.REGENERATE, 'Regenerate on the new source')
+        .addOption(ReplacedSourceInsights.DISCARD, 'Discard')
+        .setValue(this.plugin.settings.replacedSourceInsights)
+        .onChange(async (value) => {
+          this.plugin.settings.replacedSourceInsights = value as ReplacedSourceInsights;
+          await this.plugin.saveSettings();
+        }));
+
     new Setting(containerEl)
       .setName('Sync on Startup')
       .setDesc('Verify and reconcile sync state when Obsidian starts (recommended)')
@@ -450,6 +488,164 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    new Setting(containerEl)
+      .setName('Sync Attachments')
+      .setDesc('Upload PDFs, images, audio and video in linked folders, and files embedded in synced notes, as file sources')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.syncAttachments)
+        .onChange(async (value) => {
+          this.plugin.settings.syncAttachments = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Sync Metadata Storage')
+      .setDesc('Where sync state (on_* keys) is kept. The plugin index leaves notes untouched; switching moves existing metadata across.')
+      .addDropdown(dropdown => dropdown
+        .addOption(MetadataStorage.FRONTMATTER, 'Note frontmatter')
+        .addOption(MetadataStorage.SIDECAR, 'Plugin index (sidecar)')
+        .setValue(this.plugin.settings.metadataStorage)
+        .onChange(async (value) => {
+          const loadingNotice = NoticeHelper.loading('Migrating sync metadata...');
+          try {
+            const migrated = await this.plugin.getContentSyncManager().migrateMetadataStorage(value as MetadataStorage);
+            NoticeHelper.hideNotice(loadingNotice);
+            NoticeHelper.success(`Moved sync metadata of ${migrated} file${migrated === 1 ? '' : 's'}`);
+          } catch (error) {
+            NoticeHelper.hideNotice(loadingNotice);
+            logger.error('Failed to migrate sync metadata', error);
+            NoticeHelper.error(`Failed to migrate sync metadata: ${error.message || 'Unknown error'}`);
+          }
+          this.display();
+        }));
+
+    new Setting(containerEl)
+      .setName('Source Title')
+      .setDesc('Where source titles come from, tried in order: property, heading (the first H1), alias. The file name is used when none has a value.')
+      .addText(text => text
+        .setPlaceholder('property, heading, alias')
+        .setValue((this.plugin.settings.sourceTitleOrder || []).join(', '))
+        .onChange(async (value) => {
+          const fields = Object.values(SourceTitleField) as string[];
+          this.plugin.settings.sourceTitleOrder = value
+            .split(',')
+            .map(field => field.trim().toLowerCase())
+            .filter((field, index, all) => fields.includes(field) && all.indexOf(field) === index) as SourceTitleField[];
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Title Property')
+      .setDesc('Frontmatter property holding a source title')
+      .addText(text => text
+        .setPlaceholder('title')
+        .setValue(this.plugin.settings.sourceTitleProperty)
+        .onChange(async (value) => {
+          this.plugin.settings.sourceTitleProperty = value.trim();
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Tags as Topics')
+      .setDesc('Send a note\'s tags as its source topics. Notebook tags are left out.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.tagsAsTopics)
+        .onChange(async (value) => {
+          this.plugin.settings.tagsAsTopics = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Topic Properties')
+      .setDesc('Frontmatter properties whose values are sent as topics, comma-separated (such as keywords)')
+      .addText(text => text
+        .setPlaceholder('keywords, topics')
+        .setValue((this.plugin.settings.topicProperties || []).join(', '))
+        .onChange(async (value) => {
+          this.plugin.settings.topicProperties = value
+            .split(',')
+            .map(property => property.trim())
+            .filter(property => property.length > 0);
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('Process Content Before Upload')
+      .setDesc('Resolve wiki-links and embeds and strip Obsidian-only syntax in sources. Notes are uploaded as written, since they sync both ways.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.preprocessContent)
+        .onChange(async (value) => {
+          this.plugin.settings.preprocessContent = value;
+          await this.plugin.saveSettings();
+          this.display(); // Refresh to show/hide related settings
+        }));
+
+    if (this.plugin.settings.preprocessContent) {
+      new Setting(containerEl)
+        .setName('Link Format')
+        .setDesc('How [[wiki-links]] appear in uploaded sources')
+        .addDropdown(dropdown => dropdown
+          .addOption(LinkFormat.TITLE, 'Note title')
+          .addOption(LinkFormat.URL, 'Title linking back to Obsidian')
+          .setValue(this.plugin.settings.linkFormat)
+          .onChange(async (value) => {
+            this.plugin.settings.linkFormat = value as LinkFormat;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Embed Depth')
+        .setDesc('Levels of ![[embedded notes]] expanded inline (0 keeps only their titles)')
+        .addText(text => text
+          .setPlaceholder('2')
+          .setValue(String(this.plugin.settings.transclusionDepth))
+          .onChange(async (value) => {
+            const num = parseInt(value);
+            if (!isNaN(num) && num >= 0) {
+              this.plugin.settings.transclusionDepth = num;
+              await this.plugin.saveSettings();
+            }
+          }));
+
+      new Setting(containerEl)
+        .setName('Strip Comments')
+        .setDesc('Remove %%comments%% before upload')
+        .addToggle(toggle => toggle
+          .setValue(this.plugin.settings.stripComments)
+          .onChange(async (value) => {
+            this.plugin.settings.stripComments = value;
+            await this.plugin.saveSettings();
+          }));
+
+      new Setting(containerEl)
+        .setName('Strip Callout Markers')
+        .setDesc('Turn "> [!note] Title" into a quote headed by the title')
+        .addToggle(toggle => toggle
+          .setValue(this.plugin.settings.stripCallouts)
+          .onChange(async (value) => {
+            this.plugin.settings.stripCallouts = value;
+            await this.plugin.saveSettings();
+          }));
+    }
+
+    new Setting(containerEl)
+      .setName('Ignored Regions')
+      .setDesc('Regular expressions, one per line, for text that shouldn\'t count as a change (such as a "last viewed" line a plugin rewrites). Matches are still uploaded. Line endings and trailing whitespace are always ignored.')
+      .addTextArea(text => {
+        text
+          .setPlaceholder('^Last viewed: .*$\n<!-- dataview -->[\\s\\S]*?<!-- /dataview -->')
+          .setValue((this.plugin.settings.checksumIgnorePatterns || []).join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.checksumIgnorePatterns = value
+              .split('\n')
+              .map(line => line.trim())
+              .filter(line => line.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 3;
+        text.inputEl.cols = 40;
+      });
+
     // Sync Statistics
     const syncMappings = this.plugin.settings.sourceMappings || {};
     const syncedFileCount = Object.keys(syncMappings).length;
@@ -725,6 +921,34 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
           }
         }));
 
+    new Setting(containerEl)
+      .setName('Parallel Syncs')
+      .setDesc('How many files folder and full syncs send at once')
+      .addText(text => text
+        .setPlaceholder('3')
+        .setValue(String(this.plugin.settings.syncConcurrency))
+        .onChange(async (value) => {
+          const num = parseInt(value);
+          if (!isNaN(num) && num > 0) {
+            this.plugin.settings.syncConcurrency = num;
+            await this.plugin.saveSettings();
+          }
+        }));
+
+    new Setting(containerEl)
+      .setName('Max Requests per Second')
+      .setDesc('Cap on API requests, shared by all parallel syncs (0 for no cap)')
+      .addText(text => text
+        .setPlaceholder('5')
+        .setValue(String(this.plugin.settings.maxRequestsPerSecond))
+        .onChange(async (value) => {
+          const num = parseFloat(value);
+          if (!isNaN(num) && num >= 0) {
+            this.plugin.settings.maxRequestsPerSecond = num;
+            await this.plugin.saveSettings();
+          }
+        }));
+
     // Excluded Folders
     new Setting(containerEl)
       .setName('Excluded Folders')
@@ -745,6 +969,25 @@ export class OpenNotebookSettingsTab extends PluginSettingTab {
         text.inputEl.cols = 40;
       });
 
+    // Exclusion Rules
+    new Setting(containerEl)
+      .setName('Exclusion Rules')
+      .setDesc('Gitignore-style rules, one per line: globs such as "*.excalidraw.md" or "Archive/**", "regex:<pattern>", "frontmatter:private: true", and "!" to re-include. The last matching rule wins. A .opennotebookignore file in any folder adds rules for that folder.')
+      .addTextArea(text => {
+        text
+          .setPlaceholder('*.excalidraw.md\nTemplates/\nfrontmatter:private: true\n!Templates/Shared.md')
+          .setValue((this.plugin.settings.exclusionRules || []).join('\n'))
+          .onChange(async (value) => {
+            this.plugin.settings.exclusionRules = value
+              .split('\n')
+              .map(line => line.trim())
+              .filter(line => line.length > 0);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 4;
+        text.inputEl.cols = 40;
+      });
+
     // Show API version if available
     if (this.plugin.settings.apiVersion) {
       new Setting(containerEl)
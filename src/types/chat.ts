@@ -39,6 +39,15 @@ export interface ChatEvent {
   data: any;
 }
 
+/**
+ * Piece of an assistant reply delivered while streaming
+ * 'token' is an incremental delta, 'message' is a complete reply from a non-streaming server
+ */
+export interface ChatStreamChunk {
+  type: 'token' | 'message';
+  content: string;
+}
+
 export interface CreateSessionRequest {
   notebookId: string;
   title?: string;
@@ -29,12 +29,15 @@ export interface NoteUpdate {
 
 export interface NoteFrontmatter {
   on_notebook_id?: string;
+  on_notebook_ids?: string[]; // Every notebook a shared source belongs to, when more than one
   on_note_id?: string;
   on_source_id?: string;
   on_synced_at?: string;
   on_modified_at?: string;
   on_checksum?: string;
   on_sync_enabled?: boolean;
+  on_title?: string; // Title last sent to the source
   on_topics?: string[];
+  on_remote_updated?: string; // Server update time of an imported source, compared when importing again
   on_ai_generated?: boolean;
 }
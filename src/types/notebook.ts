@@ -27,6 +27,13 @@ export interface NotebookUpdate {
   archived?: boolean;
 }
 
+// The notebook a folder syncs to, and the mapped folder it comes from
+export interface FolderMapping {
+  notebookId: string;
+  folderPath: string; // The folder itself, or the nearest mapped ancestor
+  inherited: boolean;
+}
+
 export interface CachedNotebook extends Notebook {
   cachedAt: number;
 }
@@ -1,5 +1,5 @@
 // Settings types for Open Notebook plugin
-import { SyncOperation } from './sync';
+import { SyncOperation, ConflictInfo, VerificationSummary } from './sync';
 import { DetectedFeatures } from '../services/FeatureDetector';
 
 export interface OpenNotebookSettings {
@@ -12,17 +12,37 @@ export interface OpenNotebookSettings {
   // Notebook Mapping
   mappingStrategy: NotebookMappingStrategy;
   folderToNotebook: Record<string, string>;
+  excludedSubfolders: string[]; // Subfolders that don't inherit their parent folder's notebook
+  inheritParentNotebooks: boolean; // Subfolders linked to their own notebook also sync to their parents' notebooks
   notebookTagPrefix: string;
   notebookPropertyName: string;
+  notebookNameMappings?: Record<string, string>; // Notebook name (from tag/property) -> notebook ID
 
   // Sync Configuration
   syncMode: SyncMode;
+  syncTarget: SyncTarget;
   syncOnSave: boolean;
   syncDebounceMs: number;
   syncIntervalMinutes: number;
   conflictResolution: ConflictResolution;
+  replacedSourceInsights: ReplacedSourceInsights; // What happens to insights when changed content replaces a source
   syncAttachments: boolean;
   syncOnStartup: boolean;
+  metadataStorage: MetadataStorage;
+
+  // Source Details
+  sourceTitleOrder: SourceTitleField[]; // Where titles come from, in order; the file name is the fallback
+  sourceTitleProperty: string;
+  tagsAsTopics: boolean;
+  topicProperties: string[]; // Frontmatter properties whose values become topics
+
+  // Content Processing (applied to sources before upload)
+  preprocessContent: boolean;
+  linkFormat: LinkFormat;
+  transclusionDepth: number; // How many levels of ![[embeds]] are expanded inline
+  stripComments: boolean;
+  stripCallouts: boolean;
+  checksumIgnorePatterns: string[]; // Regexes for regions that don't count as changes
 
   // Features
   enableChat: boolean;
@@ -41,7 +61,10 @@ export interface OpenNotebookSettings {
   enableDebugLogging: boolean;
   requestTimeout: number;
   retryAttempts: number;
+  syncConcurrency: number; // Files synced at once by folder and full syncs
+  maxRequestsPerSecond: number; // Cap on API requests across all workers, 0 = no cap
   excludedFolders: string[];
+  exclusionRules: string[]; // Gitignore-style rules, see ExclusionRules
 
   // Model Selection
   defaultChatModel?: string;  // Override for chat operations
@@ -60,6 +83,7 @@ export interface OpenNotebookSettings {
   // Cache
   cachedNotebooks?: CachedNotebook[];
   lastSyncTimestamp?: number;
+  lastVerification?: VerificationSummary;
 
   // Content Sync Mappings
   sourceMappings?: Record<string, {
@@ -67,12 +91,19 @@ export interface OpenNotebookSettings {
     sourceId: string;
     lastSynced: number;
     hash: string;
+    notebookId?: string;
+    isAttachment?: boolean;
   }>;
+  pendingCreateMarkers?: Record<string, string>; // Markers of source creates not yet confirmed, by file path
   autoSyncOnSave?: boolean;
+  pendingSyncPaths?: string[]; // Files modified but not yet synced (interval/manual modes)
 
   // Offline Queue
   offlineQueue?: SyncOperation[];
 
+  // Conflicts waiting for review (Ask Me policy)
+  pendingConflicts?: ConflictInfo[];
+
   // Feature Detection
   detectedFeatures?: DetectedFeatures;
 }
@@ -89,12 +120,39 @@ export enum SyncMode {
   INTERVAL = 'interval'
 }
 
+export enum SyncTarget {
+  SOURCES = 'sources',
+  NOTES = 'notes'
+}
+
+export enum MetadataStorage {
+  FRONTMATTER = 'frontmatter',
+  SIDECAR = 'sidecar'
+}
+
+export enum SourceTitleField {
+  PROPERTY = 'property',
+  HEADING = 'heading',
+  ALIAS = 'alias'
+}
+
+export enum LinkFormat {
+  TITLE = 'title',
+  URL = 'url'
+}
+
 export enum ConflictResolution {
   OBSIDIAN_WINS = 'obsidian-wins',
   SERVER_WINS = 'server-wins',
   ASK_USER = 'ask-user'
 }
 
+export enum ReplacedSourceInsights {
+  COPY_TO_NOTES = 'copy-to-notes', // Each file keeps one set of copies, replaced by the next
+  REGENERATE = 'regenerate', // Rerun their transformations, copying any that can't be rerun to notes
+  DISCARD = 'discard'
+}
+
 export interface CachedNotebook {
   id: string;
   name: string;
@@ -117,16 +175,34 @@ export const DEFAULT_SETTINGS: OpenNotebookSettings = {
 
   mappingStrategy: NotebookMappingStrategy.FOLDER,
   folderToNotebook: {},
+  excludedSubfolders: [],
+  inheritParentNotebooks: false,
   notebookTagPrefix: 'on-notebook/',
   notebookPropertyName: 'notebook',
+  notebookNameMappings: {},
 
   syncMode: SyncMode.REALTIME,
+  syncTarget: SyncTarget.SOURCES,
   syncOnSave: true,
   syncDebounceMs: 2000,
   syncIntervalMinutes: 5,
   conflictResolution: ConflictResolution.OBSIDIAN_WINS,
+  replacedSourceInsights: ReplacedSourceInsights.COPY_TO_NOTES,
   syncAttachments: true,
   syncOnStartup: true,
+  metadataStorage: MetadataStorage.FRONTMATTER,
+
+  sourceTitleOrder: [SourceTitleField.PROPERTY, SourceTitleField.HEADING, SourceTitleField.ALIAS],
+  sourceTitleProperty: 'title',
+  tagsAsTopics: true,
+  topicProperties: [],
+
+  preprocessContent: true,
+  linkFormat: LinkFormat.TITLE,
+  transclusionDepth: 2,
+  stripComments: true,
+  stripCallouts: true,
+  checksumIgnorePatterns: [],
 
   enableChat: true,
   enableSearch: true,
@@ -141,7 +217,10 @@ export const DEFAULT_SETTINGS: OpenNotebookSettings = {
   enableDebugLogging: false,
   requestTimeout: 30000,
   retryAttempts: 3,
+  syncConcurrency: 3,
+  maxRequestsPerSecond: 5,
   excludedFolders: ['Generated Podcasts'],
+  exclusionRules: [],
 
   // Model defaults (use API defaults if not set)
   defaultChatModel: undefined,
@@ -158,5 +237,6 @@ export const DEFAULT_SETTINGS: OpenNotebookSettings = {
   increasedTouchTargets: true,
 
   sourceMappings: {},
+  pendingCreateMarkers: {},
   autoSyncOnSave: true
 };
@@ -49,3 +49,9 @@ export interface SourceUpdate {
   title?: string;
   topics?: string[];
 }
+
+// Title and topics a vault note is uploaded with
+export interface SourceDetails {
+  title: string;
+  topics: string[];
+}
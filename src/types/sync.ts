@@ -1,11 +1,14 @@
 // Types for sync operations and conflict resolution
 
+// File operations (those with a localPath) are replayed through the sync manager,
+// so their frontmatter and mapping updates run once the server is reachable again
 export interface SyncOperation {
   id: string;
-  type: 'create' | 'update' | 'delete';
+  type: 'create' | 'update' | 'delete' | 'rename';
   resourceType: 'notebook' | 'source' | 'note';
   resourceId?: string;
   localPath?: string;
+  notebookId?: string;
   data?: any;
   timestamp: number;
   attempts: number;
@@ -24,6 +27,7 @@ export interface ConflictInfo {
   resourceType: 'note' | 'source';
   resourceId: string;
   filePath: string;
+  baseContent?: string; // Content at last sync, if a snapshot exists
   localVersion: {
     content: string;
     modifiedAt: Date;
@@ -43,3 +47,66 @@ export interface SyncStatus {
   lastSyncTime?: Date;
   lastError?: string;
 }
+
+// What a sync would do to a file, as shown in the plan preview
+export type SyncPlanAction = 'create' | 'update' | 'recreate' | 'rename' | 'delete' | 'skip' | 'conflict';
+
+export interface SyncPlanItem {
+  filePath: string;
+  action: SyncPlanAction;
+  reason: string;
+  notebookId?: string; // Unset when a tag or property names a notebook that will be created
+  resourceType?: 'source' | 'note';
+  resourceId?: string;
+  previousPath?: string; // Path the mapping was recorded under (rename)
+  remoteMissing?: boolean; // Linked source or note no longer exists in Open Notebook
+  included: boolean;
+}
+
+export interface SyncPlanResult {
+  success: boolean;
+  message: string;
+}
+
+// Outcome of a sync, as recorded in the sync journal
+export type SyncJournalAction = 'create' | 'update' | 'recreate' | 'rename' | 'delete' | 'pull' | 'skip' | 'conflict' | 'error';
+
+export interface SyncJournalEntry {
+  id: string;
+  timestamp: number;
+  filePath: string;
+  action: SyncJournalAction;
+  message: string; // What happened, or why the file was skipped or failed
+  resourceType?: 'source' | 'note';
+  resourceId?: string;
+  notebookId?: string;
+}
+
+// Outcome of the last sync verification, shown on the dashboard
+export interface VerificationSummary {
+  timestamp: number;
+  trigger: 'startup' | 'manual';
+  checked: number;
+  fixed: number; // Resynced, recreated or cleaned up
+  failed: number;
+}
+
+// Sync state of the files in one linked folder
+export interface FolderSyncStatus {
+  folderPath: string;
+  notebookId: string;
+  total: number;
+  synced: number;
+  pending: number; // Waiting for the scheduler or in the offline queue
+  failed: number; // Last journal entry is an error
+  conflicted: number;
+}
+
+// State of one file in a batch run by the job runner
+export type SyncJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface SyncJobUpdate {
+  filePath: string;
+  status: SyncJobStatus;
+  message?: string; // Result, or why the file failed
+}
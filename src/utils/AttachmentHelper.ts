@@ -0,0 +1,51 @@
+// Attachment helper utility for file-backed sources (PDF, images, audio, video)
+import { TFile } from 'obsidian';
+
+// Extensions Open Notebook can extract content from, mapped to their MIME type
+const ATTACHMENT_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  epub: 'application/epub+zip',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm'
+};
+
+// Larger files are skipped rather than pushed through a single request
+const MAX_ATTACHMENT_SIZE = 100 * 1024 * 1024;
+
+export class AttachmentHelper {
+  /**
+   * Check if a file is an attachment type that can be uploaded as a source
+   */
+  public static isSupportedAttachment(file: TFile): boolean {
+    // Own keys only - "constructor" or "toString" aren't attachment types
+    return Object.prototype.hasOwnProperty.call(ATTACHMENT_MIME_TYPES, file.extension.toLowerCase());
+  }
+
+  /**
+   * Check if an attachment is small enough to upload
+   */
+  public static isWithinSizeLimit(file: TFile): boolean {
+    return file.stat.size <= MAX_ATTACHMENT_SIZE;
+  }
+
+  /**
+   * Get the MIME type for an attachment
+   */
+  public static getMimeType(file: TFile): string {
+    return AttachmentHelper.isSupportedAttachment(file)
+      ? ATTACHMENT_MIME_TYPES[file.extension.toLowerCase()]
+      : 'application/octet-stream';
+  }
+}
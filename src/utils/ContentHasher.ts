@@ -0,0 +1,86 @@
+// Content hashing for change detection: SHA-256 over normalized text, with versioned checksums
+
+// Checksums start with their format version; older unprefixed values are legacy djb2 hashes
+const CHECKSUM_PREFIX = 'v2:';
+
+export class ContentHasher {
+  /**
+   * Hash text after normalizing it, so whitespace-only edits keep the same checksum
+   */
+  public static async hashText(text: string, ignoredRegions: RegExp[] = []): Promise<string> {
+    const normalized = this.normalize(text, ignoredRegions);
+    return this.hashBytes(new TextEncoder().encode(normalized));
+  }
+
+  /**
+   * Hash raw bytes (attachments are never normalized)
+   */
+  public static async hashBinary(data: ArrayBuffer): Promise<string> {
+    return this.hashBytes(new Uint8Array(data));
+  }
+
+  /**
+   * Normalize text for hashing: line endings, trailing whitespace, blank line runs and ignored regions
+   */
+  public static normalize(text: string, ignoredRegions: RegExp[] = []): string {
+    let normalized = text.replace(/\r\n?/g, '\n');
+
+    for (const region of ignoredRegions) {
+      normalized = normalized.replace(region, '');
+    }
+
+    return normalized
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Check if a checksum is in the current format
+   */
+  public static isCurrent(checksum: string): boolean {
+    return checksum.startsWith(CHECKSUM_PREFIX);
+  }
+
+  /**
+   * The djb2 hash earlier versions stored for text, kept to recognize unchanged files
+   */
+  public static legacyHashText(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+      hash = ((hash << 5) + hash) + text.charCodeAt(i);
+      hash = hash & hash;
+    }
+
+    return Math.abs(hash).toString(16).padStart(8, '0');
+  }
+
+  /**
+   * The djb2 hash earlier versions stored for attachments, prefixed with the byte length
+   */
+  public static legacyHashBinary(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+
+    let hash = 5381;
+    for (let i = 0; i < bytes.length; i++) {
+      hash = ((hash << 5) + hash) + bytes[i];
+      hash = hash & hash;
+    }
+
+    return `${bytes.length.toString(16)}-${Math.abs(hash).toString(16).padStart(8, '0')}`;
+  }
+
+  /**
+   * SHA-256 via WebCrypto, available on desktop and mobile
+   */
+  private static async hashBytes(bytes: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    const hex = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+
+    return CHECKSUM_PREFIX + hex;
+  }
+}
@@ -0,0 +1,140 @@
+// Frontmatter editor that changes individual top-level keys and leaves every other byte alone
+import { parseYaml, stringifyYaml } from 'obsidian';
+
+// The frontmatter block: opening fence, YAML, closing fence and its line break
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?\r?\n)?---(?:\r?\n|$)/;
+
+// A top-level "key:" line (plain or quoted key)
+const TOP_LEVEL_KEY_PATTERN = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s#'"\-?:][^:]*?|-[^\s:][^:]*?))\s*:(?:\s|$)/;
+
+export interface FrontmatterParts {
+  yaml: string | null; // Raw YAML between the fences, null if the note has no frontmatter
+  block: string; // The whole block including fences, '' if none
+  body: string;
+}
+
+export class FrontmatterEditor {
+  /**
+   * Split content into its frontmatter block and body
+   */
+  public static split(content: string): FrontmatterParts {
+    const match = content.match(FRONTMATTER_PATTERN);
+    if (!match) {
+      return { yaml: null, block: '', body: content };
+    }
+
+    return { yaml: match[1] || '', block: match[0], body: content.slice(match[0].length) };
+  }
+
+  /**
+   * Parse frontmatter YAML, or return an empty object if it is invalid
+   */
+  public static parse(yaml: string | null): Record<string, any> {
+    if (!yaml || !yaml.trim()) {
+      return {};
+    }
+
+    try {
+      const parsed = parseYaml(yaml);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * Set or remove top-level keys; undefined values remove the key
+   * Other keys, comments and formatting are kept exactly as they were
+   */
+  public static setKeys(content: string, updates: Record<string, any>): string {
+    const { yaml, body } = this.split(content);
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = yaml ? yaml.replace(/\r?\n$/, '').split(/\r?\n/) : [];
+
+    for (const [key, value] of Object.entries(updates)) {
+      const span = this.findKey(lines, key);
+      const replacement = value === undefined || value === null ? [] : this.serialize(key, value);
+
+      if (span) {
+        lines.splice(span.start, span.end - span.start, ...replacement);
+      } else {
+        lines.push(...replacement);
+      }
+    }
+
+    // Nothing but blank lines left - drop the block like a note that never had one
+    if (lines.every(line => !line.trim())) {
+      return yaml === null || Object.keys(updates).length === 0 ? content : body;
+    }
+
+    return `---${newline}${lines.join(newline)}${newline}---${newline}${body}`;
+  }
+
+  /**
+   * Check if YAML is already in the form Obsidian writes, so re-serializing it changes nothing
+   */
+  public static isCanonical(yaml: string | null): boolean {
+    if (yaml === null || !yaml.trim()) {
+      return true;
+    }
+
+    try {
+      return stringifyYaml(parseYaml(yaml)) === yaml.replace(/\r\n/g, '\n');
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Find the lines of a top-level key: its own line plus indented and list continuation lines
+   */
+  private static findKey(lines: string[], key: string): { start: number; end: number } | null {
+    const start = lines.findIndex(line => this.getTopLevelKey(line) === key);
+    if (start === -1) {
+      return null;
+    }
+
+    let end = start + 1;
+    let lastContent = end;
+    while (end < lines.length) {
+      const line = lines[end];
+      if (line.trim() === '') {
+        // Blank lines belong to the value only if it continues after them
+        end++;
+        continue;
+      }
+      if (!/^[ \t]/.test(line) && !/^-(\s|$)/.test(line)) {
+        break;
+      }
+      end++;
+      lastContent = end;
+    }
+
+    return { start, end: lastContent };
+  }
+
+  /**
+   * Get the key a line starts, or null if it continues a value or is a comment
+   */
+  private static getTopLevelKey(line: string): string | null {
+    const match = line.match(TOP_LEVEL_KEY_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    if (match[1] !== undefined) {
+      return match[1].replace(/\\(.)/g, '$1');
+    }
+    if (match[2] !== undefined) {
+      return match[2].replace(/''/g, "'");
+    }
+    return match[3].trim();
+  }
+
+  /**
+   * Serialize one key the way Obsidian writes frontmatter
+   */
+  private static serialize(key: string, value: unknown): string[] {
+    return stringifyYaml({ [key]: value }).replace(/\n$/, '').split('\n');
+  }
+}
@@ -0,0 +1,244 @@
+// Line-based diff and three-way merge for resolving sync conflicts
+
+/**
+ * A replaced range of the base lines: base[baseStart, baseEnd) becomes lines
+ */
+export interface DiffHunk {
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+}
+
+export type MergeChunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'change'; side: 'local' | 'remote' | 'both'; base: string[]; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+// Above this many LCS cells the changed middle is treated as one replaced block
+const MAX_LCS_CELLS = 4000000;
+
+export class MergeHelper {
+  /**
+   * Split text into lines, normalizing line endings
+   */
+  public static splitLines(text: string): string[] {
+    if (text.length === 0) {
+      return [];
+    }
+    return text.replace(/\r\n/g, '\n').split('\n');
+  }
+
+  /**
+   * Compute the hunks that turn base into other
+   */
+  public static diffLines(base: string[], other: string[]): DiffHunk[] {
+    // Skip the common prefix and suffix - conflicts are usually small edits
+    let prefix = 0;
+    while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < base.length - prefix &&
+      suffix < other.length - prefix &&
+      base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const a = base.slice(prefix, base.length - suffix);
+    const b = other.slice(prefix, other.length - suffix);
+
+    if (a.length === 0 && b.length === 0) {
+      return [];
+    }
+
+    if (a.length === 0 || b.length === 0 || (a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+      return [{ baseStart: prefix, baseEnd: prefix + a.length, lines: b }];
+    }
+
+    return this.diffMiddle(a, b, prefix);
+  }
+
+  /**
+   * Three-way merge of local and remote against their common base
+   * Without a base, every difference between local and remote is a conflict
+   */
+  public static merge(base: string | null, local: string, remote: string): MergeChunk[] {
+    const localLines = this.splitLines(local);
+    const remoteLines = this.splitLines(remote);
+
+    if (base === null) {
+      return this.twoWayMerge(localLines, remoteLines);
+    }
+
+    const baseLines = this.splitLines(base);
+    const localHunks = this.diffLines(baseLines, localLines);
+    const remoteHunks = this.diffLines(baseLines, remoteLines);
+
+    const chunks: MergeChunk[] = [];
+    let position = 0;
+    let li = 0;
+    let ri = 0;
+
+    while (li < localHunks.length || ri < remoteHunks.length) {
+      const start = Math.min(
+        li < localHunks.length ? localHunks[li].baseStart : Infinity,
+        ri < remoteHunks.length ? remoteHunks[ri].baseStart : Infinity
+      );
+
+      this.pushStable(chunks, baseLines.slice(position, start));
+
+      // Grow the region until no hunk from either side overlaps or touches it
+      const localGroup: DiffHunk[] = [];
+      const remoteGroup: DiffHunk[] = [];
+      let end = start;
+      let grew = true;
+      while (grew) {
+        grew = false;
+        while (li < localHunks.length && localHunks[li].baseStart <= end) {
+          localGroup.push(localHunks[li]);
+          end = Math.max(end, localHunks[li].baseEnd);
+          li++;
+          grew = true;
+        }
+        while (ri < remoteHunks.length && remoteHunks[ri].baseStart <= end) {
+          remoteGroup.push(remoteHunks[ri]);
+          end = Math.max(end, remoteHunks[ri].baseEnd);
+          ri++;
+          grew = true;
+        }
+      }
+
+      const baseRegion = baseLines.slice(start, end);
+      const localRegion = this.applyHunks(baseLines, localGroup, start, end);
+      const remoteRegion = this.applyHunks(baseLines, remoteGroup, start, end);
+
+      if (remoteGroup.length === 0) {
+        chunks.push({ type: 'change', side: 'local', base: baseRegion, lines: localRegion });
+      } else if (localGroup.length === 0) {
+        chunks.push({ type: 'change', side: 'remote', base: baseRegion, lines: remoteRegion });
+      } else if (this.sameLines(localRegion, remoteRegion)) {
+        chunks.push({ type: 'change', side: 'both', base: baseRegion, lines: localRegion });
+      } else {
+        chunks.push({ type: 'conflict', base: baseRegion, local: localRegion, remote: remoteRegion });
+      }
+
+      position = end;
+    }
+
+    this.pushStable(chunks, baseLines.slice(position));
+    return chunks;
+  }
+
+  /**
+   * Join merged lines back into text
+   */
+  public static joinLines(lines: string[]): string {
+    return lines.join('\n');
+  }
+
+  /**
+   * Diff the changed middle section with an LCS table
+   */
+  private static diffMiddle(a: string[], b: string[], offset: number): DiffHunk[] {
+    const width = b.length + 1;
+    const lcs = new Uint32Array((a.length + 1) * width);
+
+    // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    const hunks: DiffHunk[] = [];
+    let current: DiffHunk | null = null;
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        current = null;
+        i++;
+        j++;
+        continue;
+      }
+
+      if (!current) {
+        current = { baseStart: offset + i, baseEnd: offset + i, lines: [] };
+        hunks.push(current);
+      }
+
+      if (j >= b.length || (i < a.length && lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+        // Line removed from base
+        current.baseEnd++;
+        i++;
+      } else {
+        // Line added in other
+        current.lines.push(b[j]);
+        j++;
+      }
+    }
+
+    return hunks;
+  }
+
+  /**
+   * Merge without a common base - every difference needs a decision
+   */
+  private static twoWayMerge(localLines: string[], remoteLines: string[]): MergeChunk[] {
+    const chunks: MergeChunk[] = [];
+    let position = 0;
+
+    for (const hunk of this.diffLines(localLines, remoteLines)) {
+      this.pushStable(chunks, localLines.slice(position, hunk.baseStart));
+      chunks.push({
+        type: 'conflict',
+        base: [],
+        local: localLines.slice(hunk.baseStart, hunk.baseEnd),
+        remote: hunk.lines
+      });
+      position = hunk.baseEnd;
+    }
+
+    this.pushStable(chunks, localLines.slice(position));
+    return chunks;
+  }
+
+  /**
+   * Rebuild one side's text for base[start, end) from its hunks
+   */
+  private static applyHunks(base: string[], hunks: DiffHunk[], start: number, end: number): string[] {
+    const lines: string[] = [];
+    let position = start;
+
+    for (const hunk of hunks) {
+      lines.push(...base.slice(position, hunk.baseStart));
+      lines.push(...hunk.lines);
+      position = hunk.baseEnd;
+    }
+
+    lines.push(...base.slice(position, end));
+    return lines;
+  }
+
+  /**
+   * Append unchanged lines, skipping empty runs
+   */
+  private static pushStable(chunks: MergeChunk[], lines: string[]): void {
+    if (lines.length > 0) {
+      chunks.push({ type: 'stable', lines });
+    }
+  }
+
+  /**
+   * Compare two line arrays
+   */
+  private static sameLines(a: string[], b: string[]): boolean {
+    return a.length === b.length && a.every((line, index) => line === b[index]);
+  }
+}
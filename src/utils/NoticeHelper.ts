@@ -39,6 +39,10 @@ export class NoticeHelper {
     return new Notice(`⏳ ${message}`, 0); // 0 = no auto-hide
   }
 
+  public static updateLoading(notice: Notice, message: string): void {
+    notice.setMessage(`⏳ ${message}`);
+  }
+
   public static hideNotice(notice: Notice): void {
     notice.hide();
   }
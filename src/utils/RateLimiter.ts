@@ -0,0 +1,35 @@
+// Rate limiter - spaces requests out so they never exceed a requests-per-second cap
+
+export class RateLimiter {
+  private interval: number = 0;
+  private nextSlot: number = 0;
+
+  constructor(requestsPerSecond: number = 0) {
+    this.setRate(requestsPerSecond);
+  }
+
+  /**
+   * Change the cap; 0 or less removes it
+   */
+  public setRate(requestsPerSecond: number): void {
+    this.interval = requestsPerSecond > 0 ? 1000 / requestsPerSecond : 0;
+  }
+
+  /**
+   * Wait until the next request is allowed to start
+   * Callers are served in the order they ask, each taking the next free slot
+   */
+  public async acquire(): Promise<void> {
+    if (this.interval === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.interval;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// Idempotency markers that let a source create be confirmed after a failed response
+
+// Appended to the title while a create is in flight: " [on:<key>.<nonce>]"
+const MARKER_PATTERN = / \[on:([0-9a-z]+)\.([0-9a-z]+)\]$/;
+
+export class SourceMarker {
+  /**
+   * Generate a marker; the key groups all create attempts for the same file
+   */
+  public static generate(key?: string): string {
+    const nonce = Date.now().toString(36) + Math.random().toString(36).slice(2, 6);
+    return `${key || Math.random().toString(36).slice(2, 10)}.${nonce}`;
+  }
+
+  /**
+   * Derive a stable marker key from a vault path
+   */
+  public static keyForPath(filePath: string): string {
+    let hash = 5381;
+    for (let i = 0; i < filePath.length; i++) {
+      hash = ((hash << 5) + hash + filePath.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  /**
+   * Append a marker to a source title
+   */
+  public static apply(title: string, marker: string): string {
+    return `${title} [on:${marker}]`;
+  }
+
+  /**
+   * Extract the marker from a source title, or null if it has none
+   */
+  public static parse(title: string | undefined): string | null {
+    const match = title?.match(MARKER_PATTERN);
+    return match ? `${match[1]}.${match[2]}` : null;
+  }
+
+  /**
+   * Check if two markers were generated for the same file
+   */
+  public static sameKey(a: string, b: string): boolean {
+    return a.split('.')[0] === b.split('.')[0];
+  }
+}
@@ -13,6 +13,7 @@ export class ChatView extends ItemView {
   private chatAdapter: ChatAdapter;
   private currentSession: ChatSession | null = null;
   private currentNotebookId: string | null = null;
+  private streamController: AbortController | null = null;
 
   // UI elements
   private headerEl: HTMLElement;
@@ -72,12 +73,21 @@ export class ChatView extends ItemView {
     });
 
     // Event listeners
-    this.sendButtonEl.addEventListener('click', () => this.handleSend());
+    this.sendButtonEl.addEventListener('click', () => {
+      // The send button doubles as a stop button while a reply is streaming
+      if (this.streamController) {
+        this.stopStreaming();
+      } else {
+        this.handleSend();
+      }
+    });
     this.inputEl.addEventListener('keydown', (e) => {
       if (e.key === 'Enter' && !e.shiftKey) {
         // Enter sends message, Shift+Enter creates new line
         e.preventDefault();
-        this.handleSend();
+        if (!this.streamController) {
+          this.handleSend();
+        }
       }
     });
 
@@ -85,6 +95,7 @@ export class ChatView extends ItemView {
   }
 
   async onClose(): Promise<void> {
+    this.stopStreaming();
     logger.info('Chat view closed');
   }
 
@@ -200,31 +211,13 @@ export class ChatView extends ItemView {
 
           // Check if session includes messages
           if (fullSession.messages && Array.isArray(fullSession.messages)) {
-            this.currentSession.messages = fullSession.messages.map((msg: any) => {
-              const apiMessage: APIChatMessage = {
-                id: msg.id,
-                role: msg.role || (msg.type === 'human' ? 'user' : msg.type === 'ai' ? 'assistant' : 'system'),
-                content: msg.content,
-                timestamp: msg.timestamp,
-                sources: msg.sources || []
-              };
-              return this.chatAdapter.messageFromAPI(apiMessage);
-            });
+            this.currentSession.messages = fullSession.messages.map((msg: any) => this.toChatMessage(msg));
             this.renderMessages();
           } else {
             // Try the messages endpoint as fallback
             try {
               const apiMessages = await client.getChatMessages(this.currentSession.id);
-              this.currentSession.messages = apiMessages.map((msg: any) => {
-                const apiMessage: APIChatMessage = {
-                  id: msg.id,
-                  role: msg.role || (msg.type === 'human' ? 'user' : msg.type === 'ai' ? 'assistant' : 'system'),
-                  content: msg.content,
-                  timestamp: msg.timestamp,
-                  sources: msg.sources || []
-                };
-                return this.chatAdapter.messageFromAPI(apiMessage);
-              });
+              this.currentSession.messages = apiMessages.map((msg: any) => this.toChatMessage(msg));
               this.renderMessages();
             } catch (msgError: any) {
               if (msgError.statusCode === 404) {
@@ -310,19 +303,27 @@ export class ChatView extends ItemView {
       return;
     }
 
-    // Disable input
+    const session = this.currentSession;
+    const controller = new AbortController();
+    this.streamController = controller;
+
+    // Disable input and turn the send button into a stop button
     this.inputEl.disabled = true;
-    this.sendButtonEl.disabled = true;
     this.inputEl.value = '';
+    this.setSendButtonStreaming(true);
 
     // Add user message immediately
     this.addUserMessage(message);
 
-    // Add loading indicator
+    // Add loading indicator until the first token arrives
     const loadingEl = this.createLoadingElement();
     this.messagesEl.appendChild(loadingEl);
     this.scrollToBottom();
 
+    let aiMessageEl: HTMLElement | null = null;
+    let reply = '';
+    let completed = false;
+
     try {
       const client = this.plugin.getAPIClient();
 
@@ -332,51 +333,114 @@ export class ChatView extends ItemView {
         context.notebook_id = this.currentNotebookId;
       }
 
-      // Send message and get full conversation
-      const response = await client.sendMessage(this.currentSession.id, message, context);
-
-      // Remove loading indicator
-      loadingEl.remove();
-
-      // Convert API messages to internal format
-      if (response.messages && Array.isArray(response.messages)) {
-        this.currentSession.messages = response.messages.map((msg: any) => {
-          // Convert API format (with 'type' field) to internal APIChatMessage format (with 'role' field)
-          const apiMessage: APIChatMessage = {
-            id: msg.id,
-            role: msg.type === 'human' ? 'user' : msg.type === 'ai' ? 'assistant' : 'system',
-            content: msg.content,
-            timestamp: msg.timestamp,
-            sources: msg.sources || []
-          };
-          // Use adapter to convert to internal format
-          return this.chatAdapter.messageFromAPI(apiMessage);
-        });
-
-        // Find the latest AI message to animate
-        const latestAiMessage = [...this.currentSession.messages].reverse().find(m => m.role === 'assistant');
-
-        if (latestAiMessage) {
-          // Create empty AI message element
-          const aiMessageEl = this.createMessageElement('assistant', '');
+      for await (const chunk of client.streamMessage(session.id, message, context, controller.signal)) {
+        if (!aiMessageEl) {
+          loadingEl.remove();
+          aiMessageEl = this.createMessageElement('assistant', '');
           this.messagesEl.appendChild(aiMessageEl);
+        }
 
-          // Animate the response letter by letter
-          await this.animateMessageContent(aiMessageEl, latestAiMessage.content);
+        if (chunk.type === 'token') {
+          reply += chunk.content;
+          this.updateMessageContent(aiMessageEl, reply);
+          this.scrollToBottom();
+        } else {
+          // Non-streaming server - replay the full reply letter by letter
+          reply = chunk.content;
+          await this.animateMessageContent(aiMessageEl, reply, controller.signal);
         }
       }
 
+      loadingEl.remove();
+      completed = !controller.signal.aborted;
     } catch (error) {
-      logger.error('Failed to send message', error);
-      NoticeHelper.error('Failed to send message');
-      // Remove loading indicator on error
       loadingEl.remove();
+
+      if (controller.signal.aborted) {
+        logger.info('Chat response stopped by user');
+      } else {
+        logger.error('Failed to send message', error);
+        NoticeHelper.error('Failed to send message');
+      }
     } finally {
+      if (controller.signal.aborted && aiMessageEl) {
+        aiMessageEl.addClass('chat-message-stopped');
+      }
+
+      // Keep the local session in step with what was shown
+      if (this.currentSession === session) {
+        const now = new Date();
+        session.messages.push({ id: `local-${now.getTime()}-user`, role: 'user', content: message, timestamp: now });
+        if (reply) {
+          session.messages.push({ id: `local-${now.getTime()}-ai`, role: 'assistant', content: reply, timestamp: now });
+        }
+      }
+
+      this.streamController = null;
+
       // Re-enable input
       this.inputEl.disabled = false;
-      this.sendButtonEl.disabled = false;
+      this.setSendButtonStreaming(false);
       this.inputEl.focus();
     }
+
+    // The stream carries only text - take the stored messages for their ids and sources
+    if (completed) {
+      await this.refreshSessionMessages(session);
+    }
+  }
+
+  /**
+   * Replace a session's messages with the ones stored on the server
+   * Keeps the local messages if they can't be fetched
+   */
+  private async refreshSessionMessages(session: ChatSession): Promise<void> {
+    try {
+      const client = this.plugin.getAPIClient();
+      const fullSession = await client.getChatSession(session.id);
+      const apiMessages = Array.isArray(fullSession.messages)
+        ? fullSession.messages
+        : await client.getChatMessages(session.id);
+
+      // Another reply may have started meanwhile - its messages aren't stored yet
+      if (apiMessages.length > 0 && this.currentSession === session && !this.streamController) {
+        session.messages = apiMessages.map((msg: any) => this.toChatMessage(msg));
+      }
+    } catch (error) {
+      logger.warn(`Could not refresh messages of chat session ${session.id}`, error);
+    }
+  }
+
+  /**
+   * Convert a stored message, which older servers send with a type instead of a role
+   */
+  private toChatMessage(msg: any): ChatMessage {
+    const apiMessage: APIChatMessage = {
+      id: msg.id,
+      role: msg.role || (msg.type === 'human' ? 'user' : msg.type === 'ai' ? 'assistant' : 'system'),
+      content: msg.content,
+      timestamp: msg.timestamp,
+      sources: msg.sources || []
+    };
+    return this.chatAdapter.messageFromAPI(apiMessage);
+  }
+
+  /**
+   * Abort the reply that is currently streaming
+   */
+  private stopStreaming(): void {
+    if (this.streamController) {
+      this.streamController.abort();
+    }
+  }
+
+  /**
+   * Switch the send button between "Send" and "Stop"
+   */
+  private setSendButtonStreaming(streaming: boolean): void {
+    this.sendButtonEl.setText(streaming ? 'Stop' : 'Send');
+    this.sendButtonEl.toggleClass('chat-stop-button', streaming);
+    this.sendButtonEl.disabled = false;
   }
 
   /**
@@ -510,7 +574,7 @@ export class ChatView extends ItemView {
   /**
    * Animate message content letter by letter
    */
-  private async animateMessageContent(messageEl: HTMLElement, content: string): Promise<void> {
+  private async animateMessageContent(messageEl: HTMLElement, content: string, signal?: AbortSignal): Promise<void> {
     const contentEl = messageEl.querySelector('.chat-message-content') as HTMLElement;
     if (!contentEl) return;
 
@@ -521,6 +585,10 @@ export class ChatView extends ItemView {
     let currentIndex = 0;
 
     while (currentIndex < content.length) {
+      if (signal?.aborted) {
+        return;
+      }
+
       const nextIndex = Math.min(currentIndex + charsPerBatch, content.length);
       const textChunk = content.substring(0, nextIndex);
       contentEl.setText(textChunk);
@@ -0,0 +1,280 @@
+// Sync dashboard - connection health, linked folders, the offline queue and the last verification in one place
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import OpenNotebookPlugin from '../main';
+import { FolderSyncStatus, SyncOperation } from '../types/sync';
+import { logger } from '../utils/Logger';
+import { NoticeHelper } from '../utils/NoticeHelper';
+
+export const VIEW_TYPE_SYNC_DASHBOARD = 'open-notebook-sync-dashboard';
+
+// Re-render at most this often while state is changing, and at least this often for relative times
+const RENDER_DELAY_MS = 500;
+const REFRESH_INTERVAL_MS = 30000;
+
+export class SyncDashboardView extends ItemView {
+  private plugin: OpenNotebookPlugin;
+  private unsubscribe: (() => void) | null = null;
+  private renderTimer: number | null = null;
+  private rendering: Promise<void> = Promise.resolve();
+  private notebookNames: Map<string, string> = new Map();
+
+  constructor(leaf: WorkspaceLeaf, plugin: OpenNotebookPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SYNC_DASHBOARD;
+  }
+
+  getDisplayText(): string {
+    return 'Open Notebook Sync Status';
+  }
+
+  getIcon(): string {
+    return 'activity';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass('open-notebook-sync-dashboard-view');
+
+    // Every sync outcome lands in the journal; settings saves cover the queues and connection
+    this.unsubscribe = this.plugin.getSyncJournal().onChange(() => this.requestRender());
+    this.registerInterval(window.setInterval(() => this.requestRender(), REFRESH_INTERVAL_MS));
+
+    await this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.renderTimer !== null) {
+      window.clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+  }
+
+  /**
+   * Re-render soon, folding bursts of changes into one render
+   */
+  public requestRender(): void {
+    if (this.renderTimer !== null) {
+      return;
+    }
+
+    this.renderTimer = window.setTimeout(() => {
+      this.renderTimer = null;
+      this.render();
+    }, RENDER_DELAY_MS);
+  }
+
+  /**
+   * Render every section, one render at a time
+   */
+  private render(): Promise<void> {
+    this.rendering = this.rendering.then(async () => {
+      try {
+        // Folder counts are gathered before touching the DOM, so the view never flashes empty
+        const folderStatuses = await this.getFolderStatuses();
+
+        const container = this.containerEl.children[1] as HTMLElement;
+        container.empty();
+
+        this.renderConnection(container.createDiv({ cls: 'sync-dashboard-section' }));
+        this.renderVerification(container.createDiv({ cls: 'sync-dashboard-section' }));
+        this.renderFolders(container.createDiv({ cls: 'sync-dashboard-section' }), folderStatuses);
+        this.renderQueue(container.createDiv({ cls: 'sync-dashboard-section' }));
+      } catch (error) {
+        logger.error('Failed to render sync dashboard', error);
+      }
+    });
+    return this.rendering;
+  }
+
+  /**
+   * Render connection health and the sync mode
+   */
+  private renderConnection(sectionEl: HTMLElement): void {
+    const { connectionStatus, lastConnectionCheck, apiVersion, lastSyncTimestamp, syncMode } = this.plugin.settings;
+    const online = this.plugin.getOfflineQueue().getOnlineStatus();
+
+    const headerEl = sectionEl.createDiv({ cls: 'sync-dashboard-header' });
+    headerEl.createEl('h4', { text: 'Connection' });
+    const testBtn = headerEl.createEl('button', { text: 'Test' });
+    testBtn.addEventListener('click', async () => {
+      testBtn.disabled = true;
+      await this.plugin.testConnection();
+      this.requestRender();
+    });
+
+    const status = !online ? 'Unreachable - changes are queued'
+      : connectionStatus === 'connected' ? 'Connected'
+      : connectionStatus === 'error' ? 'Connection failed'
+      : 'Not tested';
+    const statusClass = !online || connectionStatus === 'error' ? 'is-error'
+      : connectionStatus === 'connected' ? 'is-success'
+      : '';
+
+    this.renderRow(sectionEl, 'Status', status, statusClass);
+    if (apiVersion) {
+      this.renderRow(sectionEl, 'API version', apiVersion);
+    }
+    this.renderRow(sectionEl, 'Last checked', this.formatTime(lastConnectionCheck));
+    this.renderRow(sectionEl, 'Last sync', this.formatTime(lastSyncTimestamp));
+    this.renderRow(sectionEl, 'Sync mode', syncMode);
+  }
+
+  /**
+   * Render the outcome of the last verification
+   */
+  private renderVerification(sectionEl: HTMLElement): void {
+    const verification = this.plugin.settings.lastVerification;
+
+    const headerEl = sectionEl.createDiv({ cls: 'sync-dashboard-header' });
+    headerEl.createEl('h4', { text: 'Last Verification' });
+    const verifyBtn = headerEl.createEl('button', { text: 'Verify' });
+    verifyBtn.addEventListener('click', () => this.plugin.previewVerification());
+
+    if (!verification) {
+      sectionEl.createDiv({ cls: 'sync-dashboard-empty', text: 'Sync state hasn\'t been verified yet.' });
+      return;
+    }
+
+    this.renderRow(sectionEl, 'When', `${this.formatTime(verification.timestamp)} (${verification.trigger})`);
+    this.renderRow(sectionEl, 'Checked', String(verification.checked));
+    this.renderRow(sectionEl, 'Fixed', String(verification.fixed));
+    this.renderRow(sectionEl, 'Failed', String(verification.failed), verification.failed > 0 ? 'is-error' : '');
+  }
+
+  /**
+   * Render a table of linked folders with their file counts
+   */
+  private renderFolders(sectionEl: HTMLElement, statuses: FolderSyncStatus[]): void {
+    const headerEl = sectionEl.createDiv({ cls: 'sync-dashboard-header' });
+    headerEl.createEl('h4', { text: 'Linked Folders' });
+
+    const conflictCount = this.plugin.getConflictQueue().getQueueSize();
+    if (conflictCount > 0) {
+      const reviewBtn = headerEl.createEl('button', { text: `Review ${conflictCount} conflict${conflictCount === 1 ? '' : 's'}` });
+      reviewBtn.addEventListener('click', () => this.plugin.reviewQueuedConflicts());
+    }
+
+    if (statuses.length === 0) {
+      sectionEl.createDiv({ cls: 'sync-dashboard-empty', text: 'No folders are linked to notebooks.' });
+      return;
+    }
+
+    const tableEl = sectionEl.createEl('table', { cls: 'sync-dashboard-table' });
+    const headRow = tableEl.createEl('thead').createEl('tr');
+    ['Folder', 'Notebook', 'Synced', 'Pending', 'Failed', 'Conflicts'].forEach(label => headRow.createEl('th', { text: label }));
+
+    const bodyEl = tableEl.createEl('tbody');
+    for (const status of statuses) {
+      const rowEl = bodyEl.createEl('tr');
+      rowEl.createEl('td', { text: status.folderPath });
+      rowEl.createEl('td', { text: this.notebookNames.get(status.notebookId) || status.notebookId });
+      rowEl.createEl('td', { text: `${status.synced} / ${status.total}` });
+      rowEl.createEl('td', { text: String(status.pending), cls: status.pending > 0 ? 'is-warning' : '' });
+      rowEl.createEl('td', { text: String(status.failed), cls: status.failed > 0 ? 'is-error' : '' });
+      rowEl.createEl('td', { text: String(status.conflicted), cls: status.conflicted > 0 ? 'is-warning' : '' });
+    }
+  }
+
+  /**
+   * Render the offline queue, with retry and drop per operation
+   */
+  private renderQueue(sectionEl: HTMLElement): void {
+    const queue = this.plugin.getOfflineQueue();
+    const operations = queue.getQueuedOperations();
+
+    const headerEl = sectionEl.createDiv({ cls: 'sync-dashboard-header' });
+    headerEl.createEl('h4', { text: `Offline Queue (${operations.length})` });
+
+    if (operations.length === 0) {
+      sectionEl.createDiv({ cls: 'sync-dashboard-empty', text: 'Nothing queued.' });
+      return;
+    }
+
+    for (const operation of operations) {
+      const rowEl = sectionEl.createDiv({ cls: 'sync-dashboard-operation' });
+
+      const textEl = rowEl.createDiv({ cls: 'sync-dashboard-operation-text' });
+      textEl.createDiv({ text: this.describeOperation(operation) });
+      const details = [
+        operation.status,
+        `${operation.attempts} attempt${operation.attempts === 1 ? '' : 's'}`,
+        `queued ${this.formatTime(operation.timestamp)}`
+      ];
+      textEl.createDiv({ cls: 'sync-dashboard-muted', text: details.join(' • ') });
+      if (operation.error) {
+        textEl.createDiv({ cls: 'sync-dashboard-muted is-error', text: operation.error });
+      }
+
+      const retryBtn = rowEl.createEl('button', { text: 'Retry' });
+      retryBtn.disabled = operation.status === 'processing';
+      retryBtn.addEventListener('click', async () => {
+        retryBtn.disabled = true;
+        try {
+          await queue.retryOperation(operation.id);
+        } catch (error) {
+          logger.error(`Failed to retry operation ${operation.id}`, error);
+          NoticeHelper.error(`Retry failed: ${error.message}`);
+        }
+        this.requestRender();
+      });
+
+      const dropBtn = rowEl.createEl('button', { text: 'Drop' });
+      dropBtn.disabled = operation.status === 'processing';
+      dropBtn.addEventListener('click', async () => {
+        await queue.removeOperation(operation.id);
+        this.requestRender();
+      });
+    }
+  }
+
+  /**
+   * Render a label and value on one line
+   */
+  private renderRow(sectionEl: HTMLElement, label: string, value: string, cls: string = ''): void {
+    const rowEl = sectionEl.createDiv({ cls: 'sync-dashboard-row' });
+    rowEl.createSpan({ cls: 'sync-dashboard-label', text: label });
+    rowEl.createSpan({ cls: `sync-dashboard-value ${cls}`.trim(), text: value });
+  }
+
+  /**
+   * Gather counts for every linked folder, looking up notebook names once
+   */
+  private async getFolderStatuses(): Promise<FolderSyncStatus[]> {
+    const syncManager = this.plugin.getContentSyncManager();
+    const mappings = Object.entries(this.plugin.settings.folderToNotebook).sort(([a], [b]) => a.localeCompare(b));
+    const statuses: FolderSyncStatus[] = [];
+
+    for (const [folderPath, notebookId] of mappings) {
+      statuses.push(await syncManager.getFolderStatus(folderPath, notebookId));
+
+      if (!this.notebookNames.has(notebookId)) {
+        const notebook = await this.plugin.getNotebookManager().getNotebook(notebookId);
+        this.notebookNames.set(notebookId, notebook?.name || notebookId);
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Describe a queued operation in one line
+   */
+  private describeOperation(operation: SyncOperation): string {
+    const target = operation.localPath || `${operation.resourceType} ${operation.resourceId || ''}`.trim();
+    return `${operation.type.charAt(0).toUpperCase()}${operation.type.slice(1)} ${target}`;
+  }
+
+  /**
+   * Format a timestamp as local time, or "Never"
+   */
+  private formatTime(timestamp: number | undefined): string {
+    return timestamp ? new Date(timestamp).toLocaleString() : 'Never';
+  }
+}
@@ -0,0 +1,226 @@
+// Sync history view - browse the sync journal, open files and retry failed syncs
+import { ItemView, TFile, WorkspaceLeaf } from 'obsidian';
+import OpenNotebookPlugin from '../main';
+import { SyncJournalAction, SyncJournalEntry } from '../types/sync';
+import { logger } from '../utils/Logger';
+import { NoticeHelper } from '../utils/NoticeHelper';
+
+export const VIEW_TYPE_SYNC_HISTORY = 'open-notebook-sync-history';
+
+// Filter labels for each journal action
+const ACTION_LABELS: Record<SyncJournalAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  recreate: 'Replaced',
+  rename: 'Renamed',
+  delete: 'Deleted',
+  pull: 'Pulled',
+  skip: 'Skipped',
+  conflict: 'Conflict',
+  error: 'Failed'
+};
+
+// Time filter options, in milliseconds (0 = all)
+const TIME_RANGES: Array<[string, number]> = [
+  ['Last hour', 60 * 60 * 1000],
+  ['Last 24 hours', 24 * 60 * 60 * 1000],
+  ['Last 7 days', 7 * 24 * 60 * 60 * 1000],
+  ['All', 0]
+];
+
+// Rows rendered at once; narrowing the filters shows the rest
+const MAX_ROWS = 300;
+
+export class SyncHistoryView extends ItemView {
+  private plugin: OpenNotebookPlugin;
+  private unsubscribe: (() => void) | null = null;
+  private renderTimer: number | null = null;
+
+  // Current filters
+  private folderFilter: string = '';
+  private actionFilter: SyncJournalAction | '' = '';
+  private timeRange: number = 24 * 60 * 60 * 1000;
+
+  // UI elements
+  private folderSelectEl: HTMLSelectElement;
+  private listEl: HTMLElement;
+  private summaryEl: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, plugin: OpenNotebookPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_SYNC_HISTORY;
+  }
+
+  getDisplayText(): string {
+    return 'Open Notebook Sync History';
+  }
+
+  getIcon(): string {
+    return 'history';
+  }
+
+  async onOpen(): Promise<void> {
+    const container = this.containerEl.children[1] as HTMLElement;
+    container.empty();
+    container.addClass('open-notebook-sync-history-view');
+
+    this.renderFilters(container.createDiv({ cls: 'sync-history-filters' }));
+    this.summaryEl = container.createDiv({ cls: 'sync-history-summary' });
+    this.listEl = container.createDiv({ cls: 'sync-history-list' });
+
+    // Bursts of entries (a full sync) re-render once
+    this.unsubscribe = this.plugin.getSyncJournal().onChange(() => {
+      if (this.renderTimer === null) {
+        this.renderTimer = window.setTimeout(() => {
+          this.renderTimer = null;
+          this.render();
+        }, 250);
+      }
+    });
+
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.renderTimer !== null) {
+      window.clearTimeout(this.renderTimer);
+      this.renderTimer = null;
+    }
+  }
+
+  /**
+   * Render the folder, status and time filters and the clear button
+   */
+  private renderFilters(filtersEl: HTMLElement): void {
+    this.folderSelectEl = filtersEl.createEl('select', { cls: 'dropdown' });
+    this.folderSelectEl.addEventListener('change', () => {
+      this.folderFilter = this.folderSelectEl.value;
+      this.render();
+    });
+
+    const actionSelectEl = filtersEl.createEl('select', { cls: 'dropdown' });
+    actionSelectEl.createEl('option', { text: 'All statuses', value: '' });
+    (Object.keys(ACTION_LABELS) as SyncJournalAction[]).forEach(action =>
+      actionSelectEl.createEl('option', { text: ACTION_LABELS[action], value: action })
+    );
+    actionSelectEl.addEventListener('change', () => {
+      this.actionFilter = actionSelectEl.value as SyncJournalAction | '';
+      this.render();
+    });
+
+    const timeSelectEl = filtersEl.createEl('select', { cls: 'dropdown' });
+    TIME_RANGES.forEach(([label, ms]) => timeSelectEl.createEl('option', { text: label, value: String(ms) }));
+    timeSelectEl.value = String(this.timeRange);
+    timeSelectEl.addEventListener('change', () => {
+      this.timeRange = Number(timeSelectEl.value);
+      this.render();
+    });
+
+    const clearBtn = filtersEl.createEl('button', { text: 'Clear' });
+    clearBtn.addEventListener('click', async () => {
+      await this.plugin.getSyncJournal().clear();
+      NoticeHelper.info('Sync history cleared');
+    });
+  }
+
+  /**
+   * Render the entries matching the filters, newest first
+   */
+  private render(): void {
+    if (!this.listEl) {
+      return;
+    }
+
+    const entries = this.plugin.getSyncJournal().getEntries();
+    this.updateFolderOptions(entries);
+
+    const cutoff = this.timeRange > 0 ? Date.now() - this.timeRange : 0;
+    const matching = entries.filter(entry =>
+      entry.timestamp >= cutoff &&
+      (!this.actionFilter || entry.action === this.actionFilter) &&
+      (!this.folderFilter || entry.filePath.startsWith(this.folderFilter + '/'))
+    );
+
+    const failed = matching.filter(entry => entry.action === 'error').length;
+    this.summaryEl.setText(
+      `${matching.length} ${matching.length === 1 ? 'entry' : 'entries'}` +
+      (failed > 0 ? `, ${failed} failed` : '') +
+      (matching.length > MAX_ROWS ? ` (showing the newest ${MAX_ROWS})` : '')
+    );
+
+    this.listEl.empty();
+    if (matching.length === 0) {
+      this.listEl.createDiv({ cls: 'sync-history-empty', text: 'No sync activity matches these filters.' });
+      return;
+    }
+
+    matching.slice(0, MAX_ROWS).forEach(entry => this.renderEntry(entry));
+  }
+
+  /**
+   * Render one journal entry
+   */
+  private renderEntry(entry: SyncJournalEntry): void {
+    const rowEl = this.listEl.createDiv({ cls: `sync-history-entry sync-history-${entry.action}` });
+
+    const headerEl = rowEl.createDiv({ cls: 'sync-history-entry-header' });
+    headerEl.createSpan({ cls: 'sync-history-action', text: ACTION_LABELS[entry.action] });
+    headerEl.createSpan({ cls: 'sync-history-time', text: new Date(entry.timestamp).toLocaleString() });
+
+    const file = this.app.vault.getAbstractFileByPath(entry.filePath);
+    const pathEl = rowEl.createDiv({ cls: 'sync-history-path', text: entry.filePath });
+    if (file instanceof TFile) {
+      pathEl.addClass('is-link');
+      pathEl.addEventListener('click', () => this.app.workspace.getLeaf(false).openFile(file));
+    }
+
+    rowEl.createDiv({ cls: 'sync-history-message', text: entry.message });
+
+    if (entry.action === 'error' && file instanceof TFile) {
+      const retryBtn = rowEl.createEl('button', { cls: 'sync-history-retry', text: 'Retry' });
+      retryBtn.addEventListener('click', async () => {
+        retryBtn.disabled = true;
+        retryBtn.setText('Retrying…');
+        try {
+          const message = await this.plugin.getContentSyncManager().retryFile(entry.filePath);
+          NoticeHelper.info(`${file.basename}: ${message}`);
+        } catch (error) {
+          logger.error(`Retry failed for ${entry.filePath}`, error);
+          NoticeHelper.error(`Retry failed: ${error.message}`);
+        }
+        // The retry records its own entry, which re-renders the list
+        retryBtn.disabled = false;
+        retryBtn.setText('Retry');
+      });
+    }
+  }
+
+  /**
+   * Offer every folder that appears in the journal as a filter
+   */
+  private updateFolderOptions(entries: SyncJournalEntry[]): void {
+    const folders = new Set<string>();
+    entries.forEach(entry => {
+      const segments = entry.filePath.split('/').slice(0, -1);
+      for (let depth = 1; depth <= segments.length; depth++) {
+        folders.add(segments.slice(0, depth).join('/'));
+      }
+    });
+
+    // Keep the selected folder even if its entries aged out
+    if (this.folderFilter) {
+      folders.add(this.folderFilter);
+    }
+
+    this.folderSelectEl.empty();
+    this.folderSelectEl.createEl('option', { text: 'All folders', value: '' });
+    Array.from(folders).sort().forEach(folder => this.folderSelectEl.createEl('option', { text: folder, value: folder }));
+    this.folderSelectEl.value = this.folderFilter;
+  }
+}